@@ -1,66 +1,153 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { Node, Particle, Crack, SimulationStep, Point } from './types';
-import { generateSimulationSteps, presets } from './utils';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import { Node, Particle, Crack, SimulationStep, SimulationState, SimulationOptions, StepFocus, Point, GridConfig } from './types';
+import { presets, PresetKey } from './utils';
+import { fieldStateAt } from './trace';
+import { useSimulationTrace } from './useSimulationTrace';
+import { serializeScene, readSceneFile } from './scene';
+import { downloadBlob, downloadText } from './download';
+import { FrameExportOptions, exportFrame, exportFrameSequence } from './frameExport';
+import { ReferenceFields, readReferenceFile } from './parity';
+import { encodeShareHash, decodeShareHash, settleStepIndex } from './shareLink';
+import { Breakpoint, BreakpointCondition, stepHitsBreakpoint, findBreakpointStep, remapBreakpoints } from './breakpoints';
+import { SceneHistory, createHistory, currentScene, pushHistory, sealHistory, undo, redo, jumpTo, canUndo, canRedo, gridEditKey } from './history';
+import { EditTool, nextId, removeById, removeCrackPoint, addCrack, reverseCrack, renumberScene, renumberIds, deletedId } from './editing';
 import Visualizer from './components/Visualizer';
 import DebuggerPanel from './components/DebuggerPanel';
-import { Play, Pause, SkipBack, SkipForward, RotateCcw, Box } from 'lucide-react';
+import GridSettings from './components/GridSettings';
+import AlgorithmSettings from './components/AlgorithmSettings';
+import EditToolbar from './components/EditToolbar';
+import NoticeBanner, { Notice } from './components/NoticeBanner';
+import StepTimeline from './components/StepTimeline';
+import FieldMatrixPanel from './components/FieldMatrixPanel';
+import RunSummary from './components/RunSummary';
+import SceneGeneratorDialog from './components/SceneGeneratorDialog';
+import FrameExportDialog from './components/FrameExportDialog';
+import ParityPanel from './components/ParityPanel';
+import HistoryPanel from './components/HistoryPanel';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw, Box, Upload, Download, Link, ChevronsLeft, ChevronsRight, Table, Wand2, ImageDown, GitCompare, Undo2, Redo2, History } from 'lucide-react';
+
+const presetLabels: Record<PresetKey, string> = { case1: 'Case 1', case2: 'Case 2', case3: 'Case 3' };
 
 const App: React.FC = () => {
   // --- State ---
-  const [nodes, setNodes] = useState<Node[]>(presets.case1.nodes);
-  const [particles, setParticles] = useState<Particle[]>(presets.case1.particles);
-  const [cracks, setCracks] = useState<Crack[]>(presets.case1.cracks);
+  const [history, setHistory] = useState<SceneHistory>(() => createHistory(presets.case1, `Load ${presetLabels.case1}`));
+  const { nodes, particles, cracks, grid } = currentScene(history);
+  const [options, setOptions] = useState<SimulationOptions>({});
+  const [presetKey, setPresetKey] = useState<PresetKey | null>('case1');
 
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  // Step from a shared link, applied once the trace of the link's scene is in
+  const [pendingStepIndex, setPendingStepIndex] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(500);
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+  const [tool, setTool] = useState<EditTool>('select');
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [fitRequest, setFitRequest] = useState(0);
+  const [showFieldMatrix, setShowFieldMatrix] = useState(true);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [showFrameExport, setShowFrameExport] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [frameExportProgress, setFrameExportProgress] = useState<number | null>(null);
+  const [reference, setReference] = useState<{ fileName: string; fields: ReferenceFields } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<SVGSVGElement>(null);
+  // Last hash written by us, so our own updates are not re-applied on hashchange
+  const lastHashRef = useRef<string | null>(null);
 
-  const simulationSteps: SimulationStep[] = useMemo(() => {
-    return generateSimulationSteps(nodes, particles, cracks);
-  }, [nodes, particles, cracks]);
+  // Computed in a worker, together with the comparison against a loaded reference;
+  // `progress` is non-null while a newer run is pending
+  const { trace, isCurrent: traceIsCurrent, parity: parityReport, progress, error: simulationError } =
+    useSimulationTrace(nodes, particles, cracks, grid, options, reference?.fields ?? null);
+  const simulationSteps: SimulationStep[] = trace.steps;
 
+  // A failed run leaves the previous trace on screen
   useEffect(() => {
-    if (currentStepIndex >= simulationSteps.length) {
-      setCurrentStepIndex(Math.max(0, simulationSteps.length - 1));
-    }
-  }, [simulationSteps, currentStepIndex]);
+    if (simulationError) setNotice({ kind: 'error', message: `Simulation failed: ${simulationError}. Showing the last result.` });
+  }, [simulationError]);
+
+  useEffect(() => {
+    const settled = settleStepIndex(currentStepIndex, pendingStepIndex, simulationSteps.length, traceIsCurrent);
+    if (settled.index !== currentStepIndex) setCurrentStepIndex(settled.index);
+    if (settled.pending !== pendingStepIndex) setPendingStepIndex(settled.pending);
+  }, [simulationSteps, traceIsCurrent, currentStepIndex, pendingStepIndex]);
 
   useEffect(() => {
     let interval: number;
     if (isPlaying) {
       interval = window.setInterval(() => {
         setCurrentStepIndex(prev => {
-          if (prev < simulationSteps.length - 1) return prev + 1;
+          if (prev < simulationSteps.length - 1) {
+            // Stop on the step that hits a breakpoint
+            if (stepHitsBreakpoint(breakpoints, simulationSteps, prev + 1)) setIsPlaying(false);
+            return prev + 1;
+          }
           setIsPlaying(false);
           return prev;
         });
       }, playbackSpeed);
     }
     return () => clearInterval(interval);
-  }, [isPlaying, playbackSpeed, simulationSteps.length]);
+  }, [isPlaying, playbackSpeed, simulationSteps, breakpoints]);
+
+  const handleAddBreakpoint = (condition: BreakpointCondition) => {
+    setBreakpoints(prev => [...prev, { id: nextId(prev), condition, enabled: true }]);
+  };
 
+  const handleToggleBreakpoint = (id: number) => {
+    setBreakpoints(prev => prev.map(bp => bp.id === id ? { ...bp, enabled: !bp.enabled } : bp));
+  };
+
+  const handleRemoveBreakpoint = (id: number) => setBreakpoints(prev => removeById(prev, id));
+
+  const jumpToBreakpoint = (direction: 1 | -1) => {
+    setIsPlaying(false);
+    const target = findBreakpointStep(breakpoints, simulationSteps, currentStepIndex, direction);
+    if (target === null) {
+      setNotice({ kind: 'info', message: `No enabled breakpoint ${direction === 1 ? 'after' : 'before'} step ${currentStepIndex}.` });
+      return;
+    }
+    setCurrentStepIndex(target);
+  };
+
+  // Every scene change goes through the history; see history.ts for coalesceKey
+  const editScene = (label: string, edit: (scene: SimulationState) => SimulationState, coalesceKey?: string) => {
+    setHistory(prev => pushHistory(prev, edit(currentScene(prev)), label, coalesceKey));
+  };
+  const editNodes = (label: string, edit: (nodes: Node[]) => Node[], coalesceKey?: string) =>
+    editScene(label, scene => ({ ...scene, nodes: edit(scene.nodes) }), coalesceKey);
+  const editParticles = (label: string, edit: (particles: Particle[]) => Particle[], coalesceKey?: string) =>
+    editScene(label, scene => ({ ...scene, particles: edit(scene.particles) }), coalesceKey);
+  const editCracks = (label: string, edit: (cracks: Crack[]) => Crack[], coalesceKey?: string) =>
+    editScene(label, scene => ({ ...scene, cracks: edit(scene.cracks) }), coalesceKey);
+
+  // Drags update the scene on every pointer move; each drag is one history entry
   const handleUpdateNode = (id: number, pos: Point) => {
-    setNodes(prev => prev.map(n => n.id === id ? { ...n, ...pos } : n));
+    editNodes(`Move node ${id}`, prev => prev.map(n => n.id === id ? { ...n, ...pos } : n), `node-${id}`);
   };
 
   const handleUpdateParticle = (id: number, pos: Point) => {
-    setParticles(prev => prev.map(p => p.id === id ? { ...p, ...pos } : p));
+    editParticles(`Move particle ${id}`, prev => prev.map(p => p.id === id ? { ...p, ...pos } : p), `particle-${id}`);
   };
 
   // Handle updating a specific point in a crack polyline
   const handleUpdateCrack = (id: number, pointIdx: number, pos: Point) => {
-    setCracks(prev => prev.map(c => {
+    editCracks(`Move crack ${id + 1} point ${pointIdx}`, prev => prev.map(c => {
       if (c.id !== id) return c;
       const newPoints = [...c.points];
       newPoints[pointIdx] = pos;
       return { ...c, points: newPoints };
-    }));
+    }), `crack-${id}-${pointIdx}`);
   };
 
+  const handleDragEnd = () => setHistory(sealHistory);
+
   // Handle splitting a crack segment by adding a point
   const handleSplitCrack = (id: number, segmentIdx: number, pos: Point) => {
-    setCracks(prev => prev.map(c => {
+    editCracks(`Split crack ${id + 1}`, prev => prev.map(c => {
         if (c.id !== id) return c;
         const newPoints = [...c.points];
         newPoints.splice(segmentIdx + 1, 0, pos);
@@ -68,15 +155,215 @@ const App: React.FC = () => {
     }));
   };
 
-  const loadPreset = (key: keyof typeof presets) => {
-    setNodes(presets[key].nodes);
-    setParticles(presets[key].particles);
-    setCracks(presets[key].cracks);
+  const handleAddNode = (pos: Point) => {
+    editNodes('Add node', prev => [...prev, { id: nextId(prev), ...pos }]);
+  };
+
+  const handleAddParticle = (pos: Point) => {
+    editParticles('Add particle', prev => [...prev, { id: nextId(prev), ...pos }]);
+  };
+
+  const handleAddCrack = (points: Point[]) => {
+    editCracks('Add crack', prev => addCrack(prev, points));
+  };
+
+  // Breakpoints go with the entity they are on
+  const handleDeleteNode = (id: number) => {
+    editNodes(`Delete node ${id}`, prev => removeById(prev, id));
+    setBreakpoints(prev => remapBreakpoints(prev, deletedId('node', id)));
+  };
+  const handleDeleteParticle = (id: number) => {
+    editParticles(`Delete particle ${id}`, prev => removeById(prev, id));
+    setBreakpoints(prev => remapBreakpoints(prev, deletedId('particle', id)));
+  };
+  const handleDeleteCrack = (id: number) => {
+    editCracks(`Delete crack ${id + 1}`, prev => removeById(prev, id));
+    setBreakpoints(prev => remapBreakpoints(prev, deletedId('crack', id)));
+  };
+  const handleReverseCrack = (id: number) => editCracks(`Reverse crack ${id + 1}`, prev => reverseCrack(prev, id));
+
+  const handleRemoveCrackPoint = (id: number, pointIdx: number) => {
+    editCracks(`Remove crack ${id + 1} point ${pointIdx}`, prev => removeCrackPoint(prev, id, pointIdx));
+    // A two-point crack goes as a whole, see removeCrackPoint
+    if ((cracks.find(c => c.id === id)?.points.length ?? 0) <= 2) {
+      setBreakpoints(prev => remapBreakpoints(prev, deletedId('crack', id)));
+    }
+  };
+
+  const handleRenumber = () => {
+    editScene('Renumber ids', renumberScene);
+    setBreakpoints(prev => remapBreakpoints(prev, renumberIds({ nodes, particles, cracks, grid })));
+  };
+
+  // Edits in a row to one grid field (e.g. stepping a number input) make one entry
+  const handleGridChange = (next: GridConfig) =>
+    editScene('Edit grid', scene => ({ ...scene, grid: next }), gridEditKey(grid, next));
+
+  const loadScene = (scene: SimulationState, label: string) => {
+    editScene(label, () => scene);
     setCurrentStepIndex(0);
+    setPendingStepIndex(null);
     setIsPlaying(false);
+    setFitRequest(prev => prev + 1);
   };
 
-  const currentStep = simulationSteps[currentStepIndex] || simulationSteps[0];
+  const loadPreset = (key: PresetKey) => {
+    loadScene(presets[key], `Load ${presetLabels[key]}`);
+    setPresetKey(key);
+  };
+
+  const handleUndo = () => setHistory(undo);
+  const handleRedo = () => setHistory(redo);
+  const handleJumpToHistory = (index: number) => setHistory(prev => jumpTo(prev, index));
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Form fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof Element && e.target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Restore scene and step from the URL hash; malformed links fall back to case1
+  const applyHash = async (hash: string) => {
+    try {
+      const shared = await decodeShareHash(hash);
+      if (!shared) return;
+      loadScene(shared.scene, 'Open shared link');
+      setPresetKey(shared.preset);
+      setPendingStepIndex(shared.stepIndex);
+    } catch (err) {
+      loadPreset('case1');
+      setNotice({ kind: 'warning', message: `Could not open shared link (${(err as Error).message}). Showing Case 1 instead.` });
+    }
+  };
+
+  useEffect(() => {
+    applyHash(window.location.hash);
+    const handleHashChange = () => {
+      if (window.location.hash !== lastHashRef.current) applyHash(window.location.hash);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Keep the hash in sync with the scene and step (debounced, without adding history entries)
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      const hash = await encodeShareHash({ scene: { nodes, particles, cracks, grid }, stepIndex: pendingStepIndex ?? currentStepIndex, preset: presetKey });
+      if (cancelled) return;
+      lastHashRef.current = hash;
+      window.history.replaceState(null, '', hash);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [nodes, particles, cracks, grid, currentStepIndex, pendingStepIndex, presetKey]);
+
+  const handleCopyLink = async () => {
+    const hash = await encodeShareHash({ scene: { nodes, particles, cracks, grid }, stepIndex: currentStepIndex, preset: presetKey });
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ kind: 'info', message: 'Link to this scene and step copied to clipboard.' });
+    } catch {
+      setNotice({ kind: 'info', message: url });
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      loadScene(await readSceneFile(file), `Import ${file.name}`);
+      setPresetKey(null);
+      setNotice({ kind: 'info', message: `Loaded ${file.name}` });
+    } catch (err) {
+      setNotice({ kind: 'error', message: `Could not load ${file.name}: ${(err as Error).message}` });
+    }
+  };
+
+  const handleImportReference = async (file: File) => {
+    try {
+      setReference({ fileName: file.name, fields: await readReferenceFile(file) });
+      setNotice({ kind: 'info', message: `Comparing against ${file.name}` });
+    } catch (err) {
+      setNotice({ kind: 'error', message: `Could not load ${file.name}: ${(err as Error).message}` });
+    }
+  };
+
+  const handleGenerate = (scene: SimulationState, description: string) => {
+    loadScene(scene, `Generate ${description}`);
+    setPresetKey(null);
+    setShowGenerator(false);
+    setNotice({ kind: 'info', message: `Generated ${description}` });
+  };
+
+  const handleExport = () => {
+    downloadText(serializeScene({ nodes, particles, cracks, grid }), 'scene.json');
+  };
+
+  // Result-only runs always show their final state
+  const shownStepIndex = options.mode === 'result' ? simulationSteps.length - 1 : currentStepIndex;
+  const currentStep = simulationSteps[shownStepIndex] || simulationSteps[0];
+  const currentFields = useMemo(() => fieldStateAt(trace, shownStepIndex), [trace, shownStepIndex]);
+  const diagnosticNodeIds = useMemo(() => new Set([
+    ...trace.stats.crackLimitExceeded.map(l => l.nodeId),
+    ...trace.stats.crackIntersections.flatMap(x => x.nodeIds)
+  ]), [trace]);
+  const mismatchKeys = useMemo(() => new Set(parityReport?.mismatches.map(m => m.key)), [parityReport]);
+
+  const handleExportFrame = async (exportOptions: FrameExportOptions) => {
+    if (!canvasRef.current) return;
+    try {
+      const blob = await exportFrame(canvasRef.current, exportOptions, currentStep.description);
+      downloadBlob(blob, `step-${shownStepIndex}.${exportOptions.format}`);
+    } catch (err) {
+      setNotice({ kind: 'error', message: `Frame export failed: ${(err as Error).message}` });
+    }
+  };
+
+  // Steps through the range on the live canvas (rendered synchronously per frame),
+  // then returns to the step shown before
+  const handleExportSequence = async (exportOptions: FrameExportOptions, stepIndices: number[]) => {
+    setIsPlaying(false);
+    const shownBefore = currentStepIndex;
+    setFrameExportProgress(0);
+    try {
+      const zip = await exportFrameSequence(
+        stepIndices,
+        index => {
+          flushSync(() => setCurrentStepIndex(index));
+          return canvasRef.current!;
+        },
+        index => simulationSteps[index].description,
+        exportOptions,
+        setFrameExportProgress
+      );
+      downloadBlob(zip, `frames-${stepIndices[0]}-${stepIndices[stepIndices.length - 1]}.zip`);
+      setShowFrameExport(false);
+      setNotice({ kind: 'info', message: `Exported ${stepIndices.length} frames.` });
+    } catch (err) {
+      setNotice({ kind: 'error', message: `Frame export failed: ${(err as Error).message}` });
+    } finally {
+      setCurrentStepIndex(shownBefore);
+      setFrameExportProgress(null);
+    }
+  };
+
+  // Full step mode, restricted to the steps about one node or particle
+  const handleFocus = (focus: StepFocus) => {
+    setIsPlaying(false);
+    setOptions({ ...options, mode: 'steps', focus });
+    setCurrentStepIndex(0);
+  };
 
   return (
     <div className="flex flex-col h-screen w-full bg-slate-950 text-slate-200">
@@ -99,6 +386,62 @@ const App: React.FC = () => {
              <button onClick={() => loadPreset('case2')} className="px-3 py-1.5 text-xs font-medium rounded hover:bg-slate-700 transition-colors">Case 2</button>
              <button onClick={() => loadPreset('case3')} className="px-3 py-1.5 text-xs font-medium rounded hover:bg-slate-700 transition-colors">Case 3 (2 Cracks)</button>
            </div>
+           <div className="flex gap-1">
+             <button onClick={handleUndo} disabled={!canUndo(history)} className="p-1.5 rounded bg-slate-800 hover:bg-slate-700 transition-colors disabled:opacity-40" title="Undo (Ctrl+Z)">
+               <Undo2 size={14} />
+             </button>
+             <button onClick={handleRedo} disabled={!canRedo(history)} className="p-1.5 rounded bg-slate-800 hover:bg-slate-700 transition-colors disabled:opacity-40" title="Redo (Ctrl+Shift+Z)">
+               <Redo2 size={14} />
+             </button>
+             <button onClick={() => setShowHistory(!showHistory)} className={`p-1.5 rounded transition-colors ${showHistory ? 'bg-blue-700 hover:bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`} title="Show the edit history">
+               <History size={14} />
+             </button>
+           </div>
+           <div className="flex gap-1">
+             <button onClick={() => setShowGenerator(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded bg-slate-800 hover:bg-slate-700 transition-colors" title="Generate a scene from a grid, particle layout and crack pattern">
+               <Wand2 size={14} /> Generate
+             </button>
+             <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded bg-slate-800 hover:bg-slate-700 transition-colors" title="Import scene JSON">
+               <Upload size={14} /> Import
+             </button>
+             <button onClick={handleExport} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded bg-slate-800 hover:bg-slate-700 transition-colors" title="Export scene JSON">
+               <Download size={14} /> Export
+             </button>
+             <button onClick={() => setShowFrameExport(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded bg-slate-800 hover:bg-slate-700 transition-colors" title="Export the canvas as SVG / PNG, or a step range as a frame sequence">
+               <ImageDown size={14} /> Frames
+             </button>
+             <button onClick={() => referenceInputRef.current?.click()} className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded transition-colors ${reference ? 'bg-blue-700 hover:bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`} title="Compare with a reference field file from the Python implementation">
+               <GitCompare size={14} /> Parity
+             </button>
+             <button onClick={handleCopyLink} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded bg-slate-800 hover:bg-slate-700 transition-colors" title="Copy a link to this scene and step">
+               <Link size={14} /> Share
+             </button>
+             <button onClick={() => setShowFieldMatrix(!showFieldMatrix)} className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded transition-colors ${showFieldMatrix ? 'bg-blue-700 hover:bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`} title="Show the node x particle field matrix">
+               <Table size={14} /> Matrix
+             </button>
+             <input
+               ref={fileInputRef}
+               type="file"
+               accept=".json,application/json"
+               className="hidden"
+               onChange={(e) => {
+                 const file = e.target.files?.[0];
+                 if (file) handleImportFile(file);
+                 e.target.value = '';
+               }}
+             />
+             <input
+               ref={referenceInputRef}
+               type="file"
+               accept=".json,application/json"
+               className="hidden"
+               onChange={(e) => {
+                 const file = e.target.files?.[0];
+                 if (file) handleImportReference(file);
+                 e.target.value = '';
+               }}
+             />
+           </div>
            <a href="#" className="text-xs text-blue-400 hover:text-blue-300">View Python Source</a>
         </div>
       </header>
@@ -114,8 +457,48 @@ const App: React.FC = () => {
               <h3 className="text-xs font-bold text-slate-300 mb-1">INTERACTIVE MODE</h3>
               <p className="text-[10px] text-slate-400">
                 Drag nodes/particles. Drag crack points. <br/>
-                <span className="text-amber-300">Double-click</span> a crack segment to add a point.
+                Scroll to zoom, drag empty space to pan. <br/>
+                <span className="text-amber-300">Double-click</span> a crack segment to add a point, <br/>
+                a node or particle to step through it alone. <br/>
+                Use the toolbar to add or delete entities. <br/>
+                <span className="text-amber-300">Ctrl+Z</span> undoes an edit. <br/>
+                Drop a scene JSON here to load it.
               </p>
+              <div className="mt-2 pointer-events-auto">
+                <EditToolbar tool={tool} onToolChange={setTool} onRenumber={handleRenumber} />
+              </div>
+            </div>
+
+            {progress !== null && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 w-48 bg-slate-900/90 border border-slate-700 rounded px-3 py-2 pointer-events-none">
+                <div className="flex justify-between text-[10px] text-slate-400 mb-1">
+                  <span>Computing steps…</span>
+                  <span className="font-mono">{Math.round(progress * 100)}%</span>
+                </div>
+                <div className="h-1 bg-slate-700 rounded overflow-hidden">
+                  <div className="h-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+                </div>
+              </div>
+            )}
+
+            {notice && (
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20">
+                <NoticeBanner notice={notice} onDismiss={() => setNotice(null)} />
+              </div>
+            )}
+
+            <div className="absolute top-4 right-4 z-10 space-y-2">
+              <GridSettings grid={grid} onChange={handleGridChange} />
+              <AlgorithmSettings options={options} onChange={setOptions} />
+              {options.mode === 'result' && (
+                <RunSummary stats={trace.stats} cracks={cracks} pairCount={trace.pairKeys.length} onFocus={handleFocus} />
+              )}
+              {showHistory && (
+                <HistoryPanel history={history} onJump={handleJumpToHistory} onClose={() => setShowHistory(false)} />
+              )}
+              {reference && parityReport && (
+                <ParityPanel report={parityReport} fileName={reference.fileName} onFocus={handleFocus} onClose={() => setReference(null)} />
+              )}
             </div>
             
             <div className="w-full max-w-[600px] aspect-[6/5]">
@@ -123,11 +506,29 @@ const App: React.FC = () => {
                  nodes={nodes}
                  particles={particles}
                  cracks={cracks}
+                 grid={grid}
                  currentStep={currentStep}
+                 fields={currentFields}
+                 diagnosticNodeIds={diagnosticNodeIds}
+                 mismatchKeys={mismatchKeys}
+                 tool={tool}
                  onUpdateNode={handleUpdateNode}
                  onUpdateParticle={handleUpdateParticle}
                  onUpdateCrack={handleUpdateCrack}
+                 onDragEnd={handleDragEnd}
                  onSplitCrack={handleSplitCrack}
+                 onAddNode={handleAddNode}
+                 onAddParticle={handleAddParticle}
+                 onAddCrack={handleAddCrack}
+                 onDeleteNode={handleDeleteNode}
+                 onDeleteParticle={handleDeleteParticle}
+                 onDeleteCrack={handleDeleteCrack}
+                 onReverseCrack={handleReverseCrack}
+                 onRemoveCrackPoint={handleRemoveCrackPoint}
+                 onDropFile={handleImportFile}
+                 onFocusEntity={handleFocus}
+                 fitRequest={fitRequest}
+                 svgRef={canvasRef}
                />
             </div>
           </div>
@@ -138,6 +539,9 @@ const App: React.FC = () => {
                <button onClick={() => { setIsPlaying(false); setCurrentStepIndex(0); }} className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-white" title="Reset">
                  <RotateCcw size={16} />
                </button>
+               <button onClick={() => jumpToBreakpoint(-1)} className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-white" title="Previous breakpoint">
+                 <ChevronsLeft size={16} />
+               </button>
                <button onClick={() => { setIsPlaying(false); setCurrentStepIndex(Math.max(0, currentStepIndex - 1)); }} className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-white">
                  <SkipBack size={16} />
                </button>
@@ -147,13 +551,16 @@ const App: React.FC = () => {
                <button onClick={() => { setIsPlaying(false); setCurrentStepIndex(Math.min(simulationSteps.length - 1, currentStepIndex + 1)); }} className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-white">
                  <SkipForward size={16} />
                </button>
+               <button onClick={() => jumpToBreakpoint(1)} className="p-2 hover:bg-slate-700 rounded text-slate-400 hover:text-white" title="Next breakpoint">
+                 <ChevronsRight size={16} />
+               </button>
              </div>
 
-             <div className="flex-1 flex items-center gap-3">
-               <span className="text-xs font-mono text-slate-500 w-8 text-right">{currentStepIndex}</span>
-               <input type="range" min="0" max={simulationSteps.length - 1} value={currentStepIndex} onChange={(e) => { setIsPlaying(false); setCurrentStepIndex(parseInt(e.target.value)); }} className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400" />
-               <span className="text-xs font-mono text-slate-500 w-8">{simulationSteps.length - 1}</span>
-             </div>
+             <StepTimeline
+               steps={simulationSteps}
+               currentStepIndex={shownStepIndex}
+               onSeek={(index) => { setIsPlaying(false); setCurrentStepIndex(index); }}
+             />
 
              <div className="flex items-center gap-3 border-l border-slate-800 pl-6">
                <span className="text-[10px] text-slate-500 uppercase font-bold tracking-wider">Speed</span>
@@ -162,11 +569,43 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {showFieldMatrix && (
+          <div className="w-72 shrink-0 border-l border-slate-800">
+            <FieldMatrixPanel
+              step={currentStep}
+              fields={currentFields}
+              cracks={cracks}
+              showStepDiff={options.mode !== 'result'}
+            />
+          </div>
+        )}
+
         <div className="w-96 shrink-0 border-l border-slate-800">
-          <DebuggerPanel step={currentStep} totalSteps={simulationSteps.length} />
+          <DebuggerPanel
+            step={currentStep}
+            totalSteps={simulationSteps.length}
+            threeFieldStrategy={options.threeFieldStrategy ?? 'leave'}
+            breakpoints={breakpoints}
+            onAddBreakpoint={handleAddBreakpoint}
+            onToggleBreakpoint={handleToggleBreakpoint}
+            onRemoveBreakpoint={handleRemoveBreakpoint}
+          />
         </div>
 
       </main>
+
+      {showGenerator && <SceneGeneratorDialog onGenerate={handleGenerate} onClose={() => setShowGenerator(false)} />}
+      {showFrameExport && (
+        <FrameExportDialog
+          stepCount={simulationSteps.length}
+          currentStepIndex={shownStepIndex}
+          canExportRange={options.mode !== 'result'}
+          progress={frameExportProgress}
+          onExportFrame={handleExportFrame}
+          onExportSequence={handleExportSequence}
+          onClose={() => setShowFrameExport(false)}
+        />
+      )}
     </div>
   );
 };
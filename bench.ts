@@ -0,0 +1,57 @@
+// Times the step generation on a generated scene with and without the spatial
+// index and checks that both produce the same final fields.
+//
+//   npm run bench -- [--cells 16] [--particles 2] [--cracks 2] [--segments 16] [--seed 1]
+import { parseArgs } from 'node:util';
+import { generateSimulationTrace } from './utils';
+import { finalFieldState } from './trace';
+import { generateScene } from './sceneGenerator';
+
+const { values } = parseArgs({
+  options: {
+    cells: { type: 'string' },
+    particles: { type: 'string' },
+    cracks: { type: 'string' },
+    segments: { type: 'string' },
+    seed: { type: 'string' }
+  }
+});
+
+const intOption = (value: string | undefined, fallback: number) => {
+  const n = value === undefined ? fallback : Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`Expected a positive integer, got "${value}"`);
+  return n;
+};
+
+// Square patch of unit cells crossed by zig-zag cracks
+const cells = intOption(values.cells, 16);
+const scene = generateScene({
+  cols: cells,
+  rows: cells,
+  spacing: 1,
+  particlesPerSide: intOption(values.particles, 2),
+  particlesPerCell: 4, // Jittered layout only
+  layout: 'gauss',
+  crackPattern: 'zigzag',
+  crackCount: intOption(values.cracks, 2),
+  segmentsPerCrack: intOption(values.segments, 16),
+  seed: intOption(values.seed, 1)
+});
+
+const run = (spatialIndex: boolean) => {
+  const start = performance.now();
+  const trace = generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, { spatialIndex });
+  return { trace, ms: performance.now() - start };
+};
+
+console.log(`${scene.nodes.length} nodes, ${scene.particles.length} particles, ${scene.cracks.length} cracks x ${scene.cracks[0]?.points.length - 1} segments`);
+
+const brute = run(false);
+const indexed = run(true);
+const same = JSON.stringify(finalFieldState(brute.trace).combined) === JSON.stringify(finalFieldState(indexed.trace).combined);
+
+console.log(`all segments : ${brute.ms.toFixed(0).padStart(7)} ms, ${brute.trace.steps.length} steps`);
+console.log(`spatial index: ${indexed.ms.toFixed(0).padStart(7)} ms, ${indexed.trace.steps.length} steps`);
+console.log(`speedup ${(brute.ms / indexed.ms).toFixed(1)}x, final fields ${same ? 'identical' : 'DIFFERENT'}`);
+
+process.exitCode = same ? 0 : 1;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { presets } from './utils';
+import { Breakpoint, BreakpointCondition, remapBreakpoints } from './breakpoints';
+import { deletedId, removeById, renumberIds, renumberScene } from './editing';
+
+const breakpoints = (conditions: BreakpointCondition[]): Breakpoint[] =>
+  conditions.map((condition, id) => ({ id, condition, enabled: true }));
+
+describe('remapBreakpoints', () => {
+  // Ids 0..n-1 with node 1 and crack 0 deleted, so renumbering shifts the rest down
+  const scene = {
+    ...presets.case3,
+    nodes: removeById(presets.case3.nodes, 1),
+    cracks: removeById(presets.case3.cracks, 0)
+  };
+  const lastNode = scene.nodes[scene.nodes.length - 1].id;
+
+  it('moves breakpoints along with their entities when ids are renumbered', () => {
+    const before = breakpoints([
+      { kind: 'node', id: lastNode },
+      { kind: 'crack', id: 1 },
+      { kind: 'segment', crackId: 1, segmentIndex: 2 },
+      { kind: 'pairChange', nodeId: 2, particleId: 0 },
+      { kind: 'normalization' }
+    ]);
+    const renumbered = renumberScene(scene);
+    const after = remapBreakpoints(before, renumberIds(scene));
+
+    expect(after.map(bp => bp.condition)).toEqual([
+      { kind: 'node', id: lastNode - 1 },
+      { kind: 'crack', id: 0 },
+      { kind: 'segment', crackId: 0, segmentIndex: 2 },
+      { kind: 'pairChange', nodeId: 1, particleId: 0 },
+      { kind: 'normalization' }
+    ]);
+    expect(renumbered.nodes[lastNode - 1]).toMatchObject({ x: scene.nodes[scene.nodes.length - 1].x });
+    expect(after.map(bp => bp.id)).toEqual(before.map(bp => bp.id));
+  });
+
+  it('drops breakpoints on a deleted entity, including its segments and pairs', () => {
+    const before = breakpoints([
+      { kind: 'node', id: 2 },
+      { kind: 'node', id: 3 },
+      { kind: 'pairChange', nodeId: 2, particleId: 0 },
+      { kind: 'crack', id: 1 },
+      { kind: 'segment', crackId: 1, segmentIndex: 0 }
+    ]);
+    expect(remapBreakpoints(before, deletedId('node', 2)).map(bp => bp.id)).toEqual([1, 3, 4]);
+    expect(remapBreakpoints(before, deletedId('crack', 1)).map(bp => bp.id)).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,112 @@
+import { SimulationStep } from './types';
+import { crossingResultOf, isConsistencyStep, isInteractionStep, normalizationActionOf } from './steps';
+import { IdRemap } from './editing';
+
+export type BreakpointCondition =
+  | { kind: 'node'; id: number }
+  | { kind: 'particle'; id: number }
+  | { kind: 'crack'; id: number }
+  | { kind: 'segment'; crackId: number; segmentIndex: number }
+  | { kind: 'crossingResult'; value: number }
+  | { kind: 'normalization' }
+  | { kind: 'threeFields' }
+  | { kind: 'crackInteraction' }
+  | { kind: 'pairChange'; nodeId: number; particleId: number };
+
+export type BreakpointKind = BreakpointCondition['kind'];
+
+export interface Breakpoint {
+  id: number;
+  condition: BreakpointCondition;
+  enabled: boolean;
+}
+
+export const matchesCondition = (condition: BreakpointCondition, step: SimulationStep): boolean => {
+  switch (condition.kind) {
+    case 'node':
+      return step.highlightNodeId === condition.id
+        || (isConsistencyStep(step) && step.consistencyNodeId === condition.id)
+        || (isInteractionStep(step) && step.interactionNodeIds.includes(condition.id));
+    case 'particle':
+      return step.highlightParticleId === condition.id;
+    case 'crack':
+      return step.highlightCrackId === condition.id;
+    case 'segment':
+      return step.kind === 'segmentCheck' && step.highlightCrackId === condition.crackId
+        && step.highlightSegmentIndex === condition.segmentIndex;
+    case 'crossingResult':
+      return crossingResultOf(step) === condition.value;
+    case 'normalization':
+      return normalizationActionOf(step) !== undefined;
+    case 'threeFields':
+      return step.kind === 'warning';
+    case 'crackInteraction':
+      return isInteractionStep(step);
+    case 'pairChange': {
+      const key = `${condition.nodeId}-${condition.particleId}`;
+      return step.fieldChanges?.some(change => change.key === key) ?? false;
+    }
+  }
+};
+
+const remapCondition = (condition: BreakpointCondition, remap: IdRemap): BreakpointCondition | null => {
+  switch (condition.kind) {
+    case 'node':
+    case 'particle':
+    case 'crack': {
+      const id = remap(condition.kind, condition.id);
+      return id === undefined ? null : { ...condition, id };
+    }
+    case 'segment': {
+      const crackId = remap('crack', condition.crackId);
+      return crackId === undefined ? null : { ...condition, crackId };
+    }
+    case 'pairChange': {
+      const nodeId = remap('node', condition.nodeId);
+      const particleId = remap('particle', condition.particleId);
+      return nodeId === undefined || particleId === undefined ? null : { ...condition, nodeId, particleId };
+    }
+    default:
+      return condition;
+  }
+};
+
+// Conditions name entities by id, so they follow their entities through renumbering;
+// breakpoints on a deleted entity are dropped rather than left pointing at nothing
+export const remapBreakpoints = (breakpoints: Breakpoint[], remap: IdRemap): Breakpoint[] =>
+  breakpoints.flatMap(bp => {
+    const condition = remapCondition(bp.condition, remap);
+    return condition ? [{ ...bp, condition }] : [];
+  });
+
+export const describeCondition = (condition: BreakpointCondition): string => {
+  switch (condition.kind) {
+    case 'node': return `Node ${condition.id}`;
+    case 'particle': return `Particle ${condition.id}`;
+    case 'crack': return `Crack ${condition.id + 1}`;
+    case 'segment': return `Crack ${condition.crackId + 1}, segment ${condition.segmentIndex}`;
+    case 'crossingResult': return `crossingResult = ${condition.value}`;
+    case 'normalization': return 'Any normalization';
+    case 'threeFields': return 'Node sees all 3 fields';
+    case 'crackInteraction': return 'Crack limit or intersection';
+    case 'pairChange': return `Field of N${condition.nodeId}-P${condition.particleId} changes`;
+  }
+};
+
+export const stepHitsBreakpoint = (breakpoints: Breakpoint[], steps: SimulationStep[], index: number): boolean =>
+  breakpoints.some(bp => bp.enabled && matchesCondition(bp.condition, steps[index]));
+
+// Index of the closest step after (direction 1) or before (direction -1) `from`
+// that hits an enabled breakpoint, or null if there is none
+export const findBreakpointStep = (
+  breakpoints: Breakpoint[],
+  steps: SimulationStep[],
+  from: number,
+  direction: 1 | -1
+): number | null => {
+  if (!breakpoints.some(bp => bp.enabled)) return null;
+  for (let i = from + direction; i >= 0 && i < steps.length; i += direction) {
+    if (stepHitsBreakpoint(breakpoints, steps, i)) return i;
+  }
+  return null;
+};
@@ -0,0 +1,183 @@
+// Headless runner for the line-crossing algorithm.
+//
+//   npm run cli -- scene.json [--out fields.json] [--trace trace.ndjson] [--summary]
+//   npm run cli -- scenes/*.json --out-dir results --summary --strict
+//   npm run cli -- scene.json --reference python-fields.json
+//
+// Exit codes: 0 ok, 1 a scene could not be loaded, 2 --strict and a scene produced warnings,
+// 3 the fields differ from --reference.
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { SimulationStep, ThreeFieldStrategy, TipPolicy } from './types';
+import { generateSimulationTrace } from './utils';
+import { finalFieldState } from './trace';
+import { parseScene } from './scene';
+import { ReferenceFields, parseReference, checkParity } from './parity';
+import { buildFieldMatrix, summarizeTrace } from './report';
+
+type TraceFormat = 'json' | 'ndjson';
+
+const usage = `Usage: npm run cli -- <scene.json...> [options]
+
+Options:
+  -o, --out <file>           Write the final field matrix here (single scene, default stdout)
+      --out-dir <dir>        Write <name>.fields.json (and traces) per scene (required for several scenes)
+  -t, --trace <file>         Write the full step trace (single scene)
+      --trace-format <fmt>   json | ndjson (default: from the --trace extension, else json);
+                             with --out-dir, also writes <name>.trace.<fmt> per scene
+      --tolerance <d>        On-line distance tolerance for the orientation predicate (default 1e-9)
+      --tip-policy <p>       ignore | extend | separate (default ignore)
+      --three-field <s>      leave | nearest-side | majority | split: resolution when a node
+                             sees all 3 fields (default leave)
+      --max-cracks <n>       Ignore further cracks at a node already split by n cracks (default no limit)
+  -s, --summary              Print a JSON summary per scene (steps, pairs, warnings, normalizations)
+      --strict               Exit with code 2 when any scene raises a warning
+      --reference <file>     Compare the fields with a reference file from the Python implementation
+                             (single scene); prints the mismatches, exits with code 3 on any difference
+  -h, --help                 Show this help`;
+
+const formatTrace = (steps: SimulationStep[], format: TraceFormat): string =>
+  format === 'ndjson'
+    ? steps.map(step => JSON.stringify(step)).join('\n') + '\n'
+    : JSON.stringify(steps, null, 2) + '\n';
+
+const main = (): number => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        'out-dir': { type: 'string' },
+        trace: { type: 'string', short: 't' },
+        'trace-format': { type: 'string' },
+        tolerance: { type: 'string' },
+        'tip-policy': { type: 'string' },
+        'three-field': { type: 'string' },
+        'max-cracks': { type: 'string' },
+        summary: { type: 'boolean', short: 's' },
+        strict: { type: 'boolean' },
+        reference: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (err) {
+    console.error((err as Error).message);
+    console.error(usage);
+    return 1;
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help || positionals.length === 0) {
+    console.log(usage);
+    return values.help ? 0 : 1;
+  }
+
+  const outDir = values['out-dir'];
+  if (positionals.length > 1 && !outDir) {
+    console.error('Several scenes need --out-dir.');
+    return 1;
+  }
+  if (positionals.length > 1 && values.reference) {
+    console.error('--reference takes a single scene.');
+    return 1;
+  }
+  if (outDir && (values.out || values.trace)) {
+    console.error('--out and --trace take a single scene; use --trace-format with --out-dir.');
+    return 1;
+  }
+  const requestedFormat = values['trace-format'];
+  if (requestedFormat !== undefined && requestedFormat !== 'json' && requestedFormat !== 'ndjson') {
+    console.error(`Unknown --trace-format "${requestedFormat}" (expected json or ndjson).`);
+    return 1;
+  }
+  const traceFormat: TraceFormat = (requestedFormat as TraceFormat | undefined)
+    ?? (values.trace && extname(values.trace) === '.ndjson' ? 'ndjson' : 'json');
+
+  const tolerance = values.tolerance === undefined ? undefined : Number(values.tolerance);
+  if (tolerance !== undefined && !(tolerance >= 0)) {
+    console.error(`Invalid --tolerance "${values.tolerance}" (expected a number >= 0).`);
+    return 1;
+  }
+
+  const tipPolicy = values['tip-policy'] as TipPolicy | undefined;
+  if (tipPolicy !== undefined && !['ignore', 'extend', 'separate'].includes(tipPolicy)) {
+    console.error(`Unknown --tip-policy "${tipPolicy}" (expected ignore, extend or separate).`);
+    return 1;
+  }
+
+  const threeFieldStrategy = values['three-field'] as ThreeFieldStrategy | undefined;
+  if (threeFieldStrategy !== undefined && !['leave', 'nearest-side', 'majority', 'split'].includes(threeFieldStrategy)) {
+    console.error(`Unknown --three-field "${threeFieldStrategy}" (expected leave, nearest-side, majority or split).`);
+    return 1;
+  }
+
+  const maxCracksPerNode = values['max-cracks'] === undefined ? undefined : Number(values['max-cracks']);
+  if (maxCracksPerNode !== undefined && !(Number.isInteger(maxCracksPerNode) && maxCracksPerNode >= 1)) {
+    console.error(`Invalid --max-cracks "${values['max-cracks']}" (expected an integer >= 1).`);
+    return 1;
+  }
+
+  let reference: ReferenceFields | undefined;
+  if (values.reference) {
+    try {
+      reference = parseReference(readFileSync(values.reference, 'utf8'));
+    } catch (err) {
+      console.error(`${values.reference}: ${(err as Error).message}`);
+      return 1;
+    }
+  }
+
+  if (outDir) mkdirSync(outDir, { recursive: true });
+
+  let exitCode = 0;
+  positionals.forEach(file => {
+    let scene;
+    try {
+      scene = parseScene(readFileSync(file, 'utf8'));
+    } catch (err) {
+      console.error(`${file}: ${(err as Error).message}`);
+      exitCode = 1;
+      return;
+    }
+
+    const trace = generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, { tolerance, tipPolicy, threeFieldStrategy, maxCracksPerNode });
+    const { steps } = trace;
+    const matrix = buildFieldMatrix(scene, finalFieldState(trace).combined);
+    const matrixJson = JSON.stringify(matrix) + '\n';
+    const name = basename(file, extname(file));
+
+    if (outDir) {
+      writeFileSync(join(outDir, `${name}.fields.json`), matrixJson);
+      if (requestedFormat) {
+        writeFileSync(join(outDir, `${name}.trace.${traceFormat}`), formatTrace(steps, traceFormat));
+      }
+    } else {
+      if (values.out) writeFileSync(values.out, matrixJson);
+      else if (!values.summary) process.stdout.write(matrixJson);
+      if (values.trace) writeFileSync(values.trace, formatTrace(steps, traceFormat));
+    }
+
+    const summary = summarizeTrace(trace);
+    if (values.summary) {
+      process.stdout.write(JSON.stringify({ scene: file, ...summary }) + '\n');
+    }
+    if (values.strict && summary.warnings.length > 0 && exitCode === 0) exitCode = 2;
+
+    if (reference) {
+      const parity = checkParity(scene, reference, { tolerance, tipPolicy, threeFieldStrategy, maxCracksPerNode });
+      parity.mismatches.forEach(m => {
+        console.error(`${m.stage} ${m.key}: reference [${m.expected.join(', ')}], got [${m.actual.join(', ')}]`);
+      });
+      if (parity.missing.length > 0) console.error(`missing in reference: ${parity.missing.join(' ')}`);
+      if (parity.unexpected.length > 0) console.error(`not connected here: ${parity.unexpected.join(' ')}`);
+      console.error(`${file}: ${parity.comparedPairs} pairs compared (${parity.stages.join(' + ')}), ${parity.mismatches.length} mismatches`);
+      if (parity.mismatches.length + parity.missing.length + parity.unexpected.length > 0 && exitCode === 0) exitCode = 3;
+    }
+  });
+
+  return exitCode;
+};
+
+process.exitCode = main();
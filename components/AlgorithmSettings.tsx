@@ -0,0 +1,104 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { SimulationMode, SimulationOptions, ThreeFieldStrategy, TipPolicy } from '../types';
+import { DEFAULT_TOLERANCE } from '../predicates';
+
+interface AlgorithmSettingsProps {
+  options: SimulationOptions;
+  onChange: (options: SimulationOptions) => void;
+}
+
+const tipPolicyLabels: Record<TipPolicy, string> = {
+  ignore: 'Tip: flag only',
+  extend: 'Tip: extend to cell edge',
+  separate: 'Tip: separate field'
+};
+
+const threeFieldLabels: Record<ThreeFieldStrategy, string> = {
+  leave: '3 fields: warn only',
+  'nearest-side': '3 fields: nearest crack side',
+  majority: '3 fields: majority vote',
+  split: '3 fields: extra field'
+};
+
+const modeLabels: Record<SimulationMode, string> = {
+  steps: 'Mode: full step trace',
+  result: 'Mode: result only'
+};
+
+const AlgorithmSettings: React.FC<AlgorithmSettingsProps> = ({ options, onChange }) => {
+  return (
+    <div className="bg-slate-900/80 backdrop-blur p-3 rounded border border-slate-700 w-48 space-y-1.5 text-[10px] font-mono">
+      <h3 className="text-xs font-bold text-slate-300 mb-1 font-sans">ALGORITHM</h3>
+      <label className="flex items-center justify-between gap-2" title="Distance under which a point counts as lying on a line (0 = exact)">
+        <span className="text-slate-400">tolerance</span>
+        <input
+          type="number"
+          value={options.tolerance ?? DEFAULT_TOLERANCE}
+          min={0}
+          step="any"
+          onChange={(e) => {
+            const v = parseFloat(e.target.value);
+            if (Number.isNaN(v) || v < 0) return;
+            onChange({ ...options, tolerance: v });
+          }}
+          className="w-20 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2" title="Cracks a node may interact with; later cracks are ignored there (empty = no limit)">
+        <span className="text-slate-400">max cracks/node</span>
+        <input
+          type="number"
+          value={options.maxCracksPerNode ?? ''}
+          min={1}
+          placeholder="-"
+          onChange={(e) => {
+            if (e.target.value === '') return onChange({ ...options, maxCracksPerNode: undefined });
+            const v = parseInt(e.target.value);
+            if (Number.isNaN(v) || v < 1) return;
+            onChange({ ...options, maxCracksPerNode: v });
+          }}
+          className="w-20 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+        />
+      </label>
+      <select
+        value={options.tipPolicy ?? 'ignore'}
+        onChange={(e) => onChange({ ...options, tipPolicy: e.target.value as TipPolicy })}
+        className="w-full mt-1 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-200"
+      >
+        {(Object.keys(tipPolicyLabels) as TipPolicy[]).map(t => (
+          <option key={t} value={t}>{tipPolicyLabels[t]}</option>
+        ))}
+      </select>
+      <select
+        value={options.threeFieldStrategy ?? 'leave'}
+        onChange={(e) => onChange({ ...options, threeFieldStrategy: e.target.value as ThreeFieldStrategy })}
+        title="Resolution when a node sees fields [1, 2, 3] for one crack"
+        className="w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-200"
+      >
+        {(Object.keys(threeFieldLabels) as ThreeFieldStrategy[]).map(t => (
+          <option key={t} value={t}>{threeFieldLabels[t]}</option>
+        ))}
+      </select>
+      <select
+        value={options.mode ?? 'steps'}
+        onChange={(e) => onChange({ ...options, mode: e.target.value as SimulationMode, focus: undefined })}
+        className="w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-200"
+      >
+        {(Object.keys(modeLabels) as SimulationMode[]).map(m => (
+          <option key={m} value={m}>{modeLabels[m]}</option>
+        ))}
+      </select>
+      {options.focus && (options.mode ?? 'steps') === 'steps' && (
+        <div className="flex items-center justify-between gap-1 px-1.5 py-1 rounded bg-blue-900/50 text-blue-100">
+          <span>Steps for {options.focus.kind === 'node' ? 'Node' : 'Particle'} {options.focus.id} only</span>
+          <button onClick={() => onChange({ ...options, focus: undefined })} title="Show all steps" className="text-blue-300 hover:text-white">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlgorithmSettings;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { SimulationStep } from '../types';
+import { Breakpoint, BreakpointCondition, BreakpointKind, describeCondition, matchesCondition } from '../breakpoints';
+
+interface BreakpointListProps {
+  breakpoints: Breakpoint[];
+  step: SimulationStep;
+  onAdd: (condition: BreakpointCondition) => void;
+  onToggle: (id: number) => void;
+  onRemove: (id: number) => void;
+}
+
+const kindLabels: Record<BreakpointKind, string> = {
+  node: 'Node',
+  particle: 'Particle',
+  crack: 'Crack',
+  segment: 'Crack segment',
+  crossingResult: 'Crossing result',
+  normalization: 'Any normalization',
+  threeFields: '3-field warning',
+  crackInteraction: 'Crack limit / intersection',
+  pairChange: 'Pair field change'
+};
+
+const BreakpointList: React.FC<BreakpointListProps> = ({ breakpoints, step, onAdd, onToggle, onRemove }) => {
+  const [kind, setKind] = useState<BreakpointKind>('node');
+  const [a, setA] = useState(0);
+  const [b, setB] = useState(0);
+
+  const buildCondition = (): BreakpointCondition => {
+    switch (kind) {
+      case 'node':
+      case 'particle':
+      case 'crack':
+        return { kind, id: a };
+      case 'segment': return { kind, crackId: a, segmentIndex: b };
+      case 'crossingResult': return { kind, value: a };
+      case 'normalization':
+      case 'threeFields':
+      case 'crackInteraction':
+        return { kind };
+      case 'pairChange': return { kind, nodeId: a, particleId: b };
+    }
+  };
+
+  const numberInput = (label: string, value: number, onChange: (v: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      value={value}
+      title={label}
+      placeholder={label}
+      onChange={(e) => onChange(Math.max(0, parseInt(e.target.value) || 0))}
+      className="w-12 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+    />
+  );
+
+  return (
+    <div className="p-4 border-b border-slate-700">
+      <h3 className="text-xs font-bold text-slate-500 mb-2">BREAKPOINTS</h3>
+
+      <div className="flex items-center gap-1 text-[10px] font-mono mb-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as BreakpointKind)}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+        >
+          {(Object.keys(kindLabels) as BreakpointKind[]).map(k => <option key={k} value={k}>{kindLabels[k]}</option>)}
+        </select>
+        {(kind === 'node' || kind === 'particle' || kind === 'crack') && numberInput('id', a, setA)}
+        {kind === 'segment' && <>{numberInput('crack id', a, setA)}{numberInput('segment', b, setB)}</>}
+        {kind === 'pairChange' && <>{numberInput('node id', a, setA)}{numberInput('particle id', b, setB)}</>}
+        {kind === 'crossingResult' && (
+          <select value={a} onChange={(e) => setA(parseInt(e.target.value))} className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200">
+            <option value={0}>0</option>
+            <option value={1}>1</option>
+            <option value={2}>2</option>
+            <option value={3}>3</option>
+          </select>
+        )}
+        <button onClick={() => onAdd(buildCondition())} title="Add breakpoint" className="p-1 rounded bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700">
+          <Plus size={12} />
+        </button>
+      </div>
+
+      {breakpoints.length === 0 ? (
+        <p className="text-[10px] text-slate-600">No breakpoints. Play stops at the next enabled match.</p>
+      ) : (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {breakpoints.map(bp => {
+            const isHit = bp.enabled && matchesCondition(bp.condition, step);
+            return (
+              <li key={bp.id} className={`flex items-center gap-2 px-2 py-1 rounded text-xs ${isHit ? 'bg-red-900/50 text-red-100' : 'bg-slate-800 text-slate-300'}`}>
+                <input type="checkbox" checked={bp.enabled} onChange={() => onToggle(bp.id)} className="accent-red-500" />
+                <span className={`flex-1 font-mono truncate ${bp.enabled ? '' : 'line-through text-slate-500'}`}>{describeCondition(bp.condition)}</span>
+                <button onClick={() => onRemove(bp.id)} title="Remove" className="text-slate-500 hover:text-white">
+                  <X size={12} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BreakpointList;
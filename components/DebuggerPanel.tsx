@@ -1,32 +1,102 @@
 
 import React from 'react';
-import { SimulationStep } from '../types';
+import { SimulationStep, ThreeFieldStrategy } from '../types';
+import { Breakpoint, BreakpointCondition } from '../breakpoints';
+import { crossingResultOf, isConsistencyStep, isCrossingCheck } from '../steps';
+import BreakpointList from './BreakpointList';
+
+// What the three-field branch does under each strategy
+const threeFieldPseudoCode: Record<ThreeFieldStrategy, string> = {
+  leave: 'pass',
+  'nearest-side': 'f1 -> side(nearest_seg(p), p)',
+  majority: 'f1 -> opposite(majority(f2, f3))',
+  split: 'f1 -> 4  # extra node field'
+};
+
+// Reads the area signs [s1, s2, s3, s4] against the crack's direction (start -> end).
+// "Above" is the left of that direction, so reversing the crack swaps the two patterns.
+const orientationNotes = (signs: number[]): string[] => {
+  const side = (s: number) => s >= 0 ? 'above (left of start -> end)' : 'below (right of start -> end)';
+  const [s1, s2, s3, s4] = signs;
+  const notes = [
+    `s3: particle is ${side(s3)}`,
+    `s4: node is ${side(s4)}`,
+    (s1 < 0) !== (s2 < 0)
+      ? 's1, s2: segment start and end lie on opposite sides of the node-particle line'
+      : 's1, s2: segment start and end lie on the same side of the node-particle line'
+  ];
+  if (s1 < 0 && s2 >= 0 && s3 >= 0 && s4 < 0) notes.push('[-,+,+,-]: node below to particle above, field 2. Reversed crack: [+,-,-,+], field 3');
+  else if (s1 >= 0 && s2 < 0 && s3 < 0 && s4 >= 0) notes.push('[+,-,-,+]: node above to particle below, field 3. Reversed crack: [-,+,+,-], field 2');
+  return notes;
+};
+
+const ACTIVE = "bg-blue-900/50 text-blue-100";
+const INCREMENT = "bg-green-900/50 text-green-100";
+const DEGENERATE = "bg-cyan-900/50 text-cyan-100";
+const TIP = "bg-orange-900/50 text-orange-100";
+const INTERACTION = "bg-pink-900/50 text-pink-100";
+const WARNING = "bg-red-900/50 text-red-100";
+const REMAP = "bg-purple-900/50 text-purple-100";
+
+// Pseudo-code lines to highlight for a step, by line key
+const highlightedLines = (step: SimulationStep): Record<string, string> => {
+  switch (step.kind) {
+    case 'init': return { init: ACTIVE };
+    case 'crackIntersection': return { intersect: INTERACTION };
+    case 'crackTip': return { tips: TIP };
+    case 'segmentCheck': return {
+      loop: ACTIVE,
+      check: ACTIVE,
+      ...(step.crossingResult === 2 && { inc2: INCREMENT }),
+      ...(step.crossingResult === 3 && { inc3: INCREMENT }),
+      ...(step.degeneracy && { degenerate: DEGENERATE })
+    };
+    case 'tipCheck': return { tip_check: TIP };
+    case 'crackLimit': return { limit: INTERACTION };
+    case 'consistencyScan': return { consistency_loop: ACTIVE };
+    case 'warning': return { consistency_loop: ACTIVE, warn: WARNING };
+    case 'resolution': return { consistency_loop: ACTIVE, resolve: REMAP };
+    case 'normalization': return { consistency_loop: ACTIVE, norm: REMAP };
+    case 'crackStart':
+    case 'pairResult': // Highlights the cancellation block
+    case 'consistencyPhase':
+    case 'done':
+      return {};
+  }
+};
 
 interface DebuggerPanelProps {
   step: SimulationStep;
   totalSteps: number;
+  threeFieldStrategy: ThreeFieldStrategy;
+  breakpoints: Breakpoint[];
+  onAddBreakpoint: (condition: BreakpointCondition) => void;
+  onToggleBreakpoint: (id: number) => void;
+  onRemoveBreakpoint: (id: number) => void;
 }
 
-const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ step, totalSteps }) => {
+const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+  step,
+  totalSteps,
+  threeFieldStrategy,
+  breakpoints,
+  onAddBreakpoint,
+  onToggleBreakpoint,
+  onRemoveBreakpoint
+}) => {
   
-  const getLineClass = (lineKey: string) => {
-    if (step.description.includes("Initialization") && lineKey === 'init') return "bg-blue-900/50 text-blue-100";
-    if (step.highlightSegmentIndex !== undefined) {
-        if (lineKey === 'loop') return "bg-blue-900/50 text-blue-100";
-        if (lineKey === 'check') return "bg-blue-900/50 text-blue-100";
-        if (step.crossingResult === 2 && lineKey === 'inc2') return "bg-green-900/50 text-green-100";
-        if (step.crossingResult === 3 && lineKey === 'inc3') return "bg-green-900/50 text-green-100";
-    }
-    
-    // Cancellation
-    if (step.description.includes("Result Node")) return "bg-yellow-900/50 text-yellow-100";
-
-    // Consistency check lines
-    if (step.consistencyNodeId !== undefined && lineKey === 'consistency_loop') return "bg-blue-900/50 text-blue-100";
-    if (step.consistencyFields?.length === 3 && lineKey === 'warn') return "bg-red-900/50 text-red-100";
-    if (step.normalizationAction && lineKey === 'norm') return "bg-purple-900/50 text-purple-100";
-
-    return "text-gray-400";
+  const lines = highlightedLines(step);
+  const getLineClass = (lineKey: string) => lines[lineKey] ?? "text-gray-400";
+
+  const check = isCrossingCheck(step) ? step : null;
+  const consistency = isConsistencyStep(step) ? step : null;
+  const crossingResult = crossingResultOf(step);
+
+  // Color by the robust sign when available; exact zeros get their own color
+  const areaClass = (idx: number, area: number) => {
+    const sign = check ? check.areaSigns[idx] : Math.sign(area);
+    if (sign === 0) return "text-cyan-300";
+    return sign < 0 ? "text-yellow-400" : "text-slate-300";
   };
 
   return (
@@ -47,56 +117,56 @@ const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ step, totalSteps }) => {
       <div className="p-4 border-b border-slate-700 space-y-4 overflow-y-auto max-h-[40%]">
         <h3 className="text-xs font-bold text-slate-500 mb-2">VARIABLES</h3>
         
-        {step.segmentCounts ? (
+        {check ? (
           <div className="grid grid-cols-2 gap-2 text-xs font-mono mb-2">
              <div className="p-2 bg-slate-800 rounded">
                 <span className="text-amber-400 block mb-1">Field 2 Count (Above)</span>
-                <span className="text-xl font-bold">{step.segmentCounts.f2}</span>
+                <span className="text-xl font-bold">{check.segmentCounts.f2}</span>
              </div>
              <div className="p-2 bg-slate-800 rounded">
                 <span className="text-violet-400 block mb-1">Field 3 Count (Below)</span>
-                <span className="text-xl font-bold">{step.segmentCounts.f3}</span>
+                <span className="text-xl font-bold">{check.segmentCounts.f3}</span>
              </div>
           </div>
         ) : null}
 
-        {step.areas ? (
+        {check ? (
           <div className="grid grid-cols-2 gap-2 text-xs font-mono">
             <div className="p-2 bg-slate-800 rounded">
               <span className="text-red-400 block mb-1">Area 1</span>
-              <span className={step.areas.area1 < 0 ? "text-yellow-400" : "text-slate-300"}>
-                {step.areas.area1.toFixed(1)}
+              <span className={areaClass(0, check.areas.area1)}>
+                {check.areas.area1.toFixed(1)}
               </span>
             </div>
             <div className="p-2 bg-slate-800 rounded">
               <span className="text-green-400 block mb-1">Area 2</span>
-              <span className={step.areas.area2 < 0 ? "text-yellow-400" : "text-slate-300"}>
-                {step.areas.area2.toFixed(1)}
+              <span className={areaClass(1, check.areas.area2)}>
+                {check.areas.area2.toFixed(1)}
               </span>
             </div>
             <div className="p-2 bg-slate-800 rounded">
               <span className="text-blue-400 block mb-1">Area 3</span>
-              <span className={step.areas.area3 < 0 ? "text-yellow-400" : "text-slate-300"}>
-                {step.areas.area3.toFixed(1)}
+              <span className={areaClass(2, check.areas.area3)}>
+                {check.areas.area3.toFixed(1)}
               </span>
             </div>
             <div className="p-2 bg-slate-800 rounded">
               <span className="text-purple-400 block mb-1">Area 4</span>
-              <span className={step.areas.area4 < 0 ? "text-yellow-400" : "text-slate-300"}>
-                {step.areas.area4.toFixed(1)}
+              <span className={areaClass(3, check.areas.area4)}>
+                {check.areas.area4.toFixed(1)}
               </span>
             </div>
           </div>
-        ) : step.consistencyNodeId !== undefined ? (
+        ) : consistency ? (
           <div className="text-xs font-mono">
             <div className="p-2 bg-slate-800 rounded mb-2">
                <span className="text-slate-400 block mb-1">Checking Node</span>
-               <span className="text-white font-bold">Node {step.consistencyNodeId}</span>
+               <span className="text-white font-bold">Node {consistency.consistencyNodeId}</span>
             </div>
             <div className="p-2 bg-slate-800 rounded mb-2">
                <span className="text-slate-400 block mb-1">Fields Seen</span>
                <div className="flex gap-1 flex-wrap">
-                 {step.consistencyFields?.map(f => (
+                 {consistency.consistencyFields.map(f => (
                    <span key={f} className={`px-2 py-1 rounded text-xs font-bold bg-slate-700 text-slate-300`}>
                      {f}
                    </span>
@@ -106,37 +176,76 @@ const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ step, totalSteps }) => {
           </div>
         ) : null}
 
-        {step.crossingResult !== undefined && (
+        {check && (
+          <div className="p-2 bg-slate-800 rounded text-xs">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-slate-400">Rule Applied</span>
+              {check.degeneracy && (
+                <span className="px-1.5 py-0.5 rounded bg-cyan-900 text-cyan-200 font-mono text-[10px] uppercase">{check.degeneracy}</span>
+              )}
+            </div>
+            <span className="text-slate-200 leading-snug">{check.crossingRule}</span>
+          </div>
+        )}
+
+        {check && (
+          <div className="p-2 bg-slate-800 rounded text-xs">
+            <span className="text-slate-400 block mb-1">Crack Orientation</span>
+            <ul className="space-y-0.5 text-slate-300 leading-snug">
+              {orientationNotes(check.areaSigns).map(note => <li key={note}>{note}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {crossingResult !== undefined && (
           <div className="p-2 bg-slate-800 rounded text-center">
             <span className="text-xs text-slate-400 block">Current Result</span>
             <span className={`font-bold text-lg ${
-              step.crossingResult === 0 ? 'text-gray-400' : 
-              step.crossingResult === 2 ? 'text-amber-400' : 'text-violet-400'
+              crossingResult === 2 ? 'text-amber-400' :
+              crossingResult === 3 ? 'text-violet-400' : 'text-gray-400'
             }`}>
-              {step.crossingResult === 0 ? 'NONE' : 
-               step.crossingResult === 2 ? 'ABOVE (2)' : 'BELOW (3)'}
+              {crossingResult === 2 ? 'ABOVE (2)' :
+               crossingResult === 3 ? 'BELOW (3)' : 'NONE'}
             </span>
           </div>
         )}
       </div>
 
+      <BreakpointList
+        breakpoints={breakpoints}
+        step={step}
+        onAdd={onAddBreakpoint}
+        onToggle={onToggleBreakpoint}
+        onRemove={onRemoveBreakpoint}
+      />
+
       {/* Code View */}
       <div className="flex-1 overflow-auto bg-slate-950 p-4 font-mono text-xs leading-6">
         <div className={getLineClass('init')}>field_split = ones(nodes, particles)</div>
+        <div className={getLineClass('intersect')}>check_intersections(cracks, supports)</div>
         <div className="text-gray-600">for crack in cracks:</div>
         
-        <div className={`pl-4 ${getLineClass('loop')}`}>for seg in crack.segments:</div>
+        <div className={`pl-4 ${getLineClass('tips')}`}>tips = tip_cells(crack, grid)</div>
+        <div className={`pl-4 ${getLineClass('loop')}`}>for seg in segments_near(crack, pair):</div>
         <div className={`pl-8 ${getLineClass('check')}`}>res = check_crossing(seg)</div>
+        <div className={`pl-8 ${getLineClass('degenerate')}`}># zero sign (|d| {'<='} tol) counts as +</div>
+        <div className="pl-8 text-gray-600"># + is left of start {'->'} end ("above")</div>
         <div className={`pl-8 ${getLineClass('inc2')}`}>if res == 2: f2++</div>
         <div className={`pl-8 ${getLineClass('inc3')}`}>elif res == 3: f3++</div>
 
+        <div className={`pl-4 ${getLineClass('tip_check')}`}>for ext in tips: check_crossing(ext)</div>
+
         <div className="text-gray-600 pl-4 mt-2"># Cancellation</div>
-        <div className={step.description.includes("Result") ? "bg-yellow-900/50 text-yellow-100 pl-4" : "text-gray-600 pl-4"}>
+        <div className={step.kind === 'pairResult' ? "bg-yellow-900/50 text-yellow-100 pl-4" : "text-gray-600 pl-4"}>
            if f2 {'>'} 0 and f3 {'>'} 0: min...
            <br/>if f2 % 2 == 1: field = 2
            <br/>elif f3 % 2 == 1: field = 3
         </div>
 
+        <div className={`pl-4 mt-2 ${getLineClass('limit')}`}>
+           if len(node.cracks) {'>='} max_cracks: fields[node] = 1
+        </div>
+
         <div className="text-gray-600 pl-4 mt-4"># Consistency Check</div>
         <div className={`pl-8 ${getLineClass('consistency_loop')}`}>
            fields = unique(node_particles)
@@ -144,6 +253,9 @@ const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ step, totalSteps }) => {
         <div className={`pl-8 ${getLineClass('warn')}`}>
            if len(fields) == 3: warning
         </div>
+        <div className={`pl-12 ${getLineClass('resolve')}`}>
+           {threeFieldPseudoCode[threeFieldStrategy]}
+        </div>
         <div className={`pl-8 ${getLineClass('norm')}`}>
            remap fields [1, 2] {'->'} [3, 2]
         </div>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { MousePointer2, Square, Circle, Spline, Trash2, ArrowLeftRight, ListOrdered } from 'lucide-react';
+import { EditTool } from '../editing';
+
+interface EditToolbarProps {
+  tool: EditTool;
+  onToolChange: (tool: EditTool) => void;
+  onRenumber: () => void;
+}
+
+const tools: { key: EditTool, label: string, icon: React.ReactNode }[] = [
+  { key: 'select', label: 'Select / drag', icon: <MousePointer2 size={14} /> },
+  { key: 'node', label: 'Add node', icon: <Square size={14} /> },
+  { key: 'particle', label: 'Add particle', icon: <Circle size={14} /> },
+  { key: 'crack', label: 'Draw crack (Enter or double-click to finish, Esc to cancel)', icon: <Spline size={14} /> },
+  { key: 'delete', label: 'Delete entity / crack vertex', icon: <Trash2 size={14} /> },
+  { key: 'reverse', label: 'Reverse crack direction (swaps its above / below sides)', icon: <ArrowLeftRight size={14} /> }
+];
+
+const EditToolbar: React.FC<EditToolbarProps> = ({ tool, onToolChange, onRenumber }) => {
+  return (
+    <div className="flex bg-slate-900/80 backdrop-blur rounded border border-slate-700 p-1 gap-1">
+      {tools.map(t => (
+        <button
+          key={t.key}
+          onClick={() => onToolChange(t.key)}
+          title={t.label}
+          className={`p-1.5 rounded transition-colors ${tool === t.key ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+        >
+          {t.icon}
+        </button>
+      ))}
+      <div className="w-px bg-slate-700 mx-0.5" />
+      <button onClick={onRenumber} title="Renumber ids to 0..n-1" className="p-1.5 rounded text-slate-400 hover:bg-slate-700 hover:text-white">
+        <ListOrdered size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default EditToolbar;
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { Crack, FieldState, SimulationStep } from '../types';
+import { fieldName } from '../utils';
+import { buildPairRows, filterPairRows, sortPairRows, PairFilter, PairSort, PairSortKey } from '../fieldTable';
+
+interface FieldMatrixPanelProps {
+  step: SimulationStep;
+  fields: FieldState;
+  cracks: Crack[];
+  showStepDiff: boolean; // Off in result-only mode, where the one step carries every change of the run
+}
+
+const fieldClasses: Record<number, string> = {
+  1: 'text-slate-500',
+  2: 'text-amber-400',
+  3: 'text-violet-400',
+  4: 'text-red-400'
+};
+
+const changedClass = 'bg-yellow-900/60 text-yellow-100';
+
+const FieldMatrixPanel: React.FC<FieldMatrixPanelProps> = ({ step, fields, cracks, showStepDiff }) => {
+  const [sort, setSort] = useState<PairSort>({ key: 'node', descending: false });
+  const [filter, setFilter] = useState<PairFilter>({});
+
+  const allRows = useMemo(() => buildPairRows(fields, showStepDiff ? step : null), [fields, step, showStepDiff]);
+  const rows = useMemo(() => sortPairRows(filterPairRows(allRows, filter), sort), [allRows, filter, sort]);
+  const changedCount = allRows.filter(r => r.combinedChanged || r.crackChanged.some(Boolean)).length;
+
+  // Clicking the active column flips the direction
+  const toggleSort = (key: PairSortKey) =>
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+
+  const sortHeader = (key: PairSortKey, label: string) => (
+    <th className="px-2 py-1 text-left font-normal">
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-0.5 hover:text-white">
+        {label}
+        {sort.key === key && (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+      </button>
+    </th>
+  );
+
+  const idFilter = (label: string, value: number | undefined, onChange: (v: number | undefined) => void) => (
+    <input
+      type="number"
+      min={0}
+      value={value ?? ''}
+      placeholder={label}
+      title={`Filter by ${label}`}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0))}
+      className="w-14 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+    />
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900">
+      <div className="p-4 border-b border-slate-700 bg-slate-800">
+        <h2 className="text-sm font-bold uppercase tracking-wider text-slate-400">Field Matrix</h2>
+        <p className="text-xs text-slate-500 mt-2">
+          {rows.length} / {allRows.length} pairs
+          {showStepDiff && <> · <span className={changedCount > 0 ? 'text-yellow-300' : ''}>{changedCount} changed</span></>}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 p-2 border-b border-slate-700 text-[10px] font-mono">
+        {idFilter('node', filter.nodeId, v => setFilter({ ...filter, nodeId: v }))}
+        {idFilter('particle', filter.particleId, v => setFilter({ ...filter, particleId: v }))}
+        <select
+          value={filter.field ?? ''}
+          onChange={(e) => setFilter({ ...filter, field: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+          title="Keep pairs where any crack sees this field"
+          className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+        >
+          <option value="">any field</option>
+          {[1, 2, 3, 4].map(f => <option key={f} value={f}>{f} ({fieldName(f)})</option>)}
+        </select>
+        {showStepDiff && (
+          <label className="flex items-center gap-1 text-slate-400">
+            <input
+              type="checkbox"
+              checked={!!filter.changedOnly}
+              onChange={(e) => setFilter({ ...filter, changedOnly: e.target.checked })}
+              className="accent-yellow-500"
+            />
+            changed
+          </label>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-[10px] font-mono">
+          <thead className="sticky top-0 bg-slate-800 text-slate-400">
+            <tr>
+              {sortHeader('node', 'Node')}
+              {sortHeader('particle', 'Part.')}
+              {cracks.map(c => (
+                <th key={c.id} className="px-2 py-1 text-left font-normal">C{c.id + 1}</th>
+              ))}
+              {sortHeader('combined', 'Comb.')}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-slate-800 hover:bg-slate-800/60">
+                <td className="px-2 py-0.5 text-slate-300">{row.nodeId}</td>
+                <td className="px-2 py-0.5 text-slate-300">{row.particleId}</td>
+                {row.crackFields.map((f, idx) => (
+                  <td
+                    key={idx}
+                    title={fieldName(f)}
+                    className={`px-2 py-0.5 ${row.crackChanged[idx] ? changedClass : fieldClasses[f]}`}
+                  >
+                    {f}
+                  </td>
+                ))}
+                <td className={`px-2 py-0.5 font-bold ${row.combinedChanged ? changedClass : 'text-slate-200'}`}>{row.combined}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="p-4 text-[10px] text-slate-600">No pairs match the filter.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FieldMatrixPanel;
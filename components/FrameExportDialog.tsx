@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ImageDown, Film, X } from 'lucide-react';
+import { FrameExportOptions, FrameFormat, DEFAULT_FRAME_EXPORT, MAX_SEQUENCE_FRAMES } from '../frameExport';
+
+interface FrameExportDialogProps {
+  stepCount: number;
+  currentStepIndex: number;
+  canExportRange: boolean; // False in result-only mode, where only the final frame is shown
+  progress: number | null; // Share of the frame sequence written, while exporting
+  onExportFrame: (options: FrameExportOptions) => void;
+  onExportSequence: (options: FrameExportOptions, stepIndices: number[]) => void;
+  onClose: () => void;
+}
+
+const FrameExportDialog: React.FC<FrameExportDialogProps> = ({
+  stepCount,
+  currentStepIndex,
+  canExportRange,
+  progress,
+  onExportFrame,
+  onExportSequence,
+  onClose
+}) => {
+  const [options, setOptions] = useState<FrameExportOptions>(DEFAULT_FRAME_EXPORT);
+  const [from, setFrom] = useState(0);
+  const [to, setTo] = useState(stepCount - 1);
+  const [every, setEvery] = useState(1);
+
+  const lastStep = stepCount - 1;
+  const clampStep = (v: number) => Math.min(lastStep, Math.max(0, v));
+  // The trace can shrink while the dialog is open, so the stored range is clamped on use
+  const first = clampStep(Math.min(from, to));
+  const last = clampStep(Math.max(from, to));
+  const stepIndices: number[] = [];
+  for (let i = first; i <= last; i += Math.max(1, every)) stepIndices.push(i);
+  const tooManyFrames = stepIndices.length > MAX_SEQUENCE_FRAMES;
+
+  const busy = progress !== null;
+  const inputClass = 'w-16 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200';
+
+  const numberInput = (value: number, onChange: (v: number) => void, min = 0) => (
+    <input
+      type="number"
+      value={value}
+      min={min}
+      onChange={(e) => {
+        const v = parseInt(e.target.value);
+        if (!Number.isNaN(v)) onChange(v);
+      }}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={busy ? undefined : onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg p-4 w-80 space-y-2 text-xs font-mono shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2 font-sans">
+          <h2 className="text-sm font-bold text-slate-200">Export Frames</h2>
+          <button onClick={onClose} disabled={busy} className="text-slate-500 hover:text-white disabled:opacity-40"><X size={16} /></button>
+        </div>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">format</span>
+          <select
+            value={options.format}
+            onChange={(e) => setOptions({ ...options, format: e.target.value as FrameFormat })}
+            className="w-24 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+          >
+            <option value="png">PNG</option>
+            <option value="svg">SVG</option>
+          </select>
+        </label>
+        {options.format === 'png' && (
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-slate-400">width (px)</span>
+            {numberInput(options.pngWidth, v => setOptions({ ...options, pngWidth: Math.min(8000, Math.max(100, v)) }), 100)}
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="checkbox" checked={options.legend} onChange={(e) => setOptions({ ...options, legend: e.target.checked })} />
+          legend
+        </label>
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="checkbox" checked={options.caption} onChange={(e) => setOptions({ ...options, caption: e.target.checked })} />
+          step description as caption
+        </label>
+
+        <div className="flex justify-end pt-1 font-sans">
+          <button
+            onClick={() => onExportFrame(options)}
+            disabled={busy}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-40"
+          >
+            <ImageDown size={14} /> Current frame (step {currentStepIndex})
+          </button>
+        </div>
+
+        <h3 className="text-[10px] font-bold text-slate-500 font-sans pt-2 border-t border-slate-700">FRAME SEQUENCE (ZIP)</h3>
+        {canExportRange ? (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-slate-400">steps</span>
+              <span className="flex items-center gap-1">
+                {numberInput(clampStep(from), v => setFrom(clampStep(v)))}
+                <span className="text-slate-500">to</span>
+                {numberInput(clampStep(to), v => setTo(clampStep(v)))}
+              </span>
+            </div>
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-slate-400">every n-th step</span>
+              {numberInput(every, v => setEvery(Math.max(1, v)), 1)}
+            </label>
+            <div className="flex items-center justify-between pt-1 font-sans">
+              <span className="text-[10px] text-slate-500 font-mono">
+                {progress !== null ? `${Math.round(progress * 100)}%` : `${stepIndices.length} frames`}
+              </span>
+              <button
+                onClick={() => onExportSequence(options, stepIndices)}
+                disabled={busy || stepIndices.length === 0 || tooManyFrames}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-40"
+              >
+                <Film size={14} /> Export sequence
+              </button>
+            </div>
+            {tooManyFrames && (
+              <p className="text-[10px] text-amber-400">
+                At most {MAX_SEQUENCE_FRAMES} frames per sequence: narrow the range or export every n-th step.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-[10px] text-slate-500">Switch to the full step trace to export a step range.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FrameExportDialog;
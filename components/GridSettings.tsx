@@ -0,0 +1,56 @@
+import React from 'react';
+import { GridConfig, SupportType } from '../types';
+
+interface GridSettingsProps {
+  grid: GridConfig;
+  onChange: (grid: GridConfig) => void;
+}
+
+const supportLabels: Record<SupportType, string> = {
+  linear: 'Linear (4-node)',
+  bspline: 'Quadratic B-spline (9-node)',
+  gimp: 'GIMP'
+};
+
+const GridSettings: React.FC<GridSettingsProps> = ({ grid, onChange }) => {
+
+  const numberField = (label: string, value: number, apply: (v: number) => GridConfig, min?: number, step = 0.5) => (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-slate-400">{label}</span>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        step={step}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          if (Number.isNaN(v) || (min !== undefined && v < min)) return;
+          onChange(apply(v));
+        }}
+        className="w-16 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-slate-900/80 backdrop-blur p-3 rounded border border-slate-700 w-48 space-y-1.5 text-[10px] font-mono">
+      <h3 className="text-xs font-bold text-slate-300 mb-1 font-sans">BACKGROUND GRID</h3>
+      {numberField('origin x', grid.origin.x, v => ({ ...grid, origin: { ...grid.origin, x: v } }))}
+      {numberField('origin y', grid.origin.y, v => ({ ...grid, origin: { ...grid.origin, y: v } }))}
+      {numberField('spacing', grid.spacing, v => ({ ...grid, spacing: v }), 0.1)}
+      {numberField('cols', grid.cols, v => ({ ...grid, cols: Math.round(v) }), 1, 1)}
+      {numberField('rows', grid.rows, v => ({ ...grid, rows: Math.round(v) }), 1, 1)}
+      <select
+        value={grid.support}
+        onChange={(e) => onChange({ ...grid, support: e.target.value as SupportType })}
+        className="w-full mt-1 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-200"
+      >
+        {(Object.keys(supportLabels) as SupportType[]).map(s => (
+          <option key={s} value={s}>{supportLabels[s]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default GridSettings;
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { SceneHistory } from '../history';
+
+interface HistoryPanelProps {
+  history: SceneHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current entry in view as edits are added
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [history.index, history.entries.length]);
+
+  return (
+    <div className="bg-slate-900/80 backdrop-blur p-3 rounded border border-slate-700 w-48 text-[10px] font-mono">
+      <div className="flex items-center justify-between mb-1 font-sans">
+        <h3 className="text-xs font-bold text-slate-300">HISTORY</h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white" title="Hide"><X size={12} /></button>
+      </div>
+      <div className="max-h-56 overflow-y-auto space-y-0.5">
+        {history.entries.map((entry, index) => {
+          const isCurrent = index === history.index;
+          // Entries after the current one can still be redone
+          const isUndone = index > history.index;
+          return (
+            <button
+              key={index}
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => onJump(index)}
+              title={isCurrent ? 'Current scene' : 'Go back to this scene'}
+              className={`w-full flex gap-1.5 px-1 rounded text-left truncate ${
+                isCurrent ? 'bg-blue-700 text-white' : isUndone ? 'text-slate-500 hover:bg-slate-700' : 'text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              <span className="text-slate-500 w-5 text-right shrink-0">{index}</span>
+              <span className={`truncate ${isUndone ? 'italic' : ''}`}>{entry.label}</span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="mt-1 pt-1 border-t border-slate-700 text-slate-500">Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo</div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
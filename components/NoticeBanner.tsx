@@ -0,0 +1,31 @@
+import React from 'react';
+import { X } from 'lucide-react';
+
+export interface Notice {
+  kind: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+interface NoticeBannerProps {
+  notice: Notice;
+  onDismiss: () => void;
+}
+
+const kindClasses: Record<Notice['kind'], string> = {
+  error: 'bg-red-950/90 border-red-700 text-red-100',
+  warning: 'bg-amber-950/90 border-amber-700 text-amber-100',
+  info: 'bg-slate-800/90 border-slate-600 text-slate-100'
+};
+
+const NoticeBanner: React.FC<NoticeBannerProps> = ({ notice, onDismiss }) => {
+  return (
+    <div className={`flex items-start gap-3 px-3 py-2 rounded border backdrop-blur text-xs max-w-lg shadow-lg ${kindClasses[notice.kind]}`}>
+      <span className="flex-1 font-mono break-words">{notice.message}</span>
+      <button onClick={onDismiss} className="opacity-70 hover:opacity-100" title="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default NoticeBanner;
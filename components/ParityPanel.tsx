@@ -0,0 +1,82 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { StepFocus } from '../types';
+import { ParityReport } from '../parity';
+
+interface ParityPanelProps {
+  report: ParityReport;
+  fileName: string;
+  onFocus: (focus: StepFocus) => void;
+  onClose: () => void;
+}
+
+// Mismatches listed before the rest are collapsed into a count
+const MAX_LISTED_MISMATCHES = 40;
+
+const ParityPanel: React.FC<ParityPanelProps> = ({ report, fileName, onFocus, onClose }) => {
+  const { mismatches, missing, unexpected } = report;
+  const ok = mismatches.length === 0 && missing.length === 0 && unexpected.length === 0;
+
+  const row = (label: string, value: React.ReactNode, className = 'text-slate-200') => (
+    <div className="flex justify-between gap-2">
+      <span className="text-slate-400">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+
+  const keyList = (keys: string[]) => (
+    <div className="text-slate-500 break-words">{keys.slice(0, MAX_LISTED_MISMATCHES).join(', ')}{keys.length > MAX_LISTED_MISMATCHES && ` +${keys.length - MAX_LISTED_MISMATCHES}`}</div>
+  );
+
+  return (
+    <div className="bg-slate-900/80 backdrop-blur p-3 rounded border border-slate-700 w-48 space-y-1.5 text-[10px] font-mono">
+      <div className="flex items-center justify-between mb-1 font-sans">
+        <h3 className="text-xs font-bold text-slate-300">PARITY</h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white" title="Clear the reference"><X size={12} /></button>
+      </div>
+      <div className="text-slate-500 truncate" title={report.source ?? fileName}>{report.source ?? fileName}</div>
+      {row('stages', report.stages.join(' + '))}
+      {row('pairs compared', report.comparedPairs)}
+      {row('mismatches', mismatches.length, mismatches.length > 0 ? 'text-red-400 font-bold' : 'text-green-400')}
+      {row('missing in ref', missing.length, missing.length > 0 ? 'text-amber-300' : 'text-slate-200')}
+      {row('not connected here', unexpected.length, unexpected.length > 0 ? 'text-amber-300' : 'text-slate-200')}
+
+      {ok && <div className="text-green-400 pt-1 border-t border-slate-700">Matches the reference.</div>}
+
+      {mismatches.length > 0 && (
+        <div className="max-h-48 overflow-y-auto pt-1 border-t border-slate-700 space-y-0.5">
+          {mismatches.slice(0, MAX_LISTED_MISMATCHES).map(m => (
+            <button
+              key={`${m.stage}-${m.key}`}
+              onClick={() => onFocus({ kind: 'node', id: m.nodeId })}
+              title={`Step through Node ${m.nodeId}`}
+              className="w-full flex justify-between gap-1 px-1 rounded hover:bg-slate-700 text-left"
+            >
+              <span className="text-slate-300">N{m.nodeId}-P{m.particleId}{m.stage === 'crossing' && <span className="text-slate-500"> (x)</span>}</span>
+              <span><span className="text-green-400">[{m.expected.join(',')}]</span> <span className="text-red-400">[{m.actual.join(',')}]</span></span>
+            </button>
+          ))}
+          {mismatches.length > MAX_LISTED_MISMATCHES && (
+            <span className="text-slate-500">+{mismatches.length - MAX_LISTED_MISMATCHES}</span>
+          )}
+          <div className="text-slate-500">green: reference, red: here, (x): before normalization</div>
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="pt-1 border-t border-slate-700">
+          <span className="text-slate-400">missing in reference</span>
+          {keyList(missing)}
+        </div>
+      )}
+      {unexpected.length > 0 && (
+        <div className="pt-1 border-t border-slate-700">
+          <span className="text-slate-400">not connected here</span>
+          {keyList(unexpected)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParityPanel;
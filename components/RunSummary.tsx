@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Footprints } from 'lucide-react';
+import { Crack, RunStats, StepFocus } from '../types';
+
+interface RunSummaryProps {
+  stats: RunStats;
+  cracks: Crack[];
+  pairCount: number;
+  onFocus: (focus: StepFocus) => void;
+}
+
+// Nodes listed before the rest are collapsed into a count
+const MAX_LISTED_NODES = 24;
+
+const RunSummary: React.FC<RunSummaryProps> = ({ stats, cracks, pairCount, onFocus }) => {
+  const [kind, setKind] = useState<StepFocus['kind']>('node');
+  const [id, setId] = useState(0);
+
+  const row = (label: string, value: React.ReactNode, className = 'text-slate-200') => (
+    <div className="flex justify-between gap-2">
+      <span className="text-slate-400">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+
+  const nodeButton = (nodeId: number, key: string, className = 'bg-slate-800 text-slate-300') => (
+    <button
+      key={key}
+      onClick={() => onFocus({ kind: 'node', id: nodeId })}
+      title={`Step through Node ${nodeId}`}
+      className={`px-1 rounded hover:bg-blue-700 hover:text-white ${className}`}
+    >
+      {nodeId}
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-900/80 backdrop-blur p-3 rounded border border-slate-700 w-48 space-y-1.5 text-[10px] font-mono">
+      <h3 className="text-xs font-bold text-slate-300 mb-1 font-sans">RESULT SUMMARY</h3>
+      {row('pairs', pairCount)}
+      {cracks.map((c, idx) => row(`crossed by C${c.id + 1}`, stats.crossingsPerCrack[idx] ?? 0, 'text-amber-300'))}
+      {row('cancelled', stats.cancelledPairs)}
+      {row('normalizations', stats.normalizations.length, 'text-purple-300')}
+      {row('3-field warnings', stats.warnings.length, stats.warnings.length > 0 ? 'text-red-400 font-bold' : 'text-slate-200')}
+      {row('crack limit hits', stats.crackLimitExceeded.length, stats.crackLimitExceeded.length > 0 ? 'text-pink-400 font-bold' : 'text-slate-200')}
+      {row('crack intersections', stats.crackIntersections.length, stats.crackIntersections.length > 0 ? 'text-pink-400 font-bold' : 'text-slate-200')}
+
+      {stats.warnings.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {stats.warnings.map(w => nodeButton(w.nodeId, `w${w.crackId}-${w.nodeId}`, 'bg-red-900/60 text-red-100'))}
+        </div>
+      )}
+
+      {(stats.crackLimitExceeded.length > 0 || stats.crackIntersections.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {stats.crackLimitExceeded.map(l => nodeButton(l.nodeId, `l${l.crackId}-${l.nodeId}`, 'bg-pink-900/60 text-pink-100'))}
+          {stats.crackIntersections.flatMap((x, idx) => x.nodeIds.map(nodeId => nodeButton(nodeId, `x${idx}-${nodeId}`, 'bg-pink-900/60 text-pink-100')))}
+        </div>
+      )}
+
+      <div>
+        <span className="text-slate-400">nodes touched: {stats.nodesTouched.length}</span>
+        <div className="flex flex-wrap gap-1 mt-1 max-h-20 overflow-y-auto">
+          {stats.nodesTouched.slice(0, MAX_LISTED_NODES).map(nodeId => nodeButton(nodeId, `n${nodeId}`))}
+          {stats.nodesTouched.length > MAX_LISTED_NODES && (
+            <span className="text-slate-500">+{stats.nodesTouched.length - MAX_LISTED_NODES}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1 pt-1 border-t border-slate-700">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as StepFocus['kind'])}
+          className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+        >
+          <option value="node">Node</option>
+          <option value="particle">Particle</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          value={id}
+          onChange={(e) => setId(Math.max(0, parseInt(e.target.value) || 0))}
+          className="w-10 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+        />
+        <button
+          onClick={() => onFocus({ kind, id })}
+          title="Step through this entity only"
+          className="flex-1 flex items-center justify-center gap-1 px-1 py-0.5 rounded bg-blue-700 hover:bg-blue-600 text-white"
+        >
+          <Footprints size={10} /> Steps
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RunSummary;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Dices, X } from 'lucide-react';
+import { SimulationState } from '../types';
+import {
+  SceneGeneratorOptions, ParticleLayout, CrackPattern,
+  DEFAULT_GENERATOR_OPTIONS, crackPatternLabels, generateScene, describeGeneratorOptions
+} from '../sceneGenerator';
+
+interface SceneGeneratorDialogProps {
+  onGenerate: (scene: SimulationState, description: string) => void;
+  onClose: () => void;
+}
+
+type NumericOption = 'cols' | 'rows' | 'spacing' | 'particlesPerSide' | 'particlesPerCell' | 'crackCount' | 'segmentsPerCrack' | 'seed';
+
+const SceneGeneratorDialog: React.FC<SceneGeneratorDialogProps> = ({ onGenerate, onClose }) => {
+  const [options, setOptions] = useState<SceneGeneratorOptions>(DEFAULT_GENERATOR_OPTIONS);
+
+  const numberField = (key: NumericOption, label: string, min: number, step = 1) => (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-slate-400">{label}</span>
+      <input
+        type="number"
+        value={options[key]}
+        min={min}
+        step={step}
+        onChange={(e) => {
+          const v = step === 1 ? parseInt(e.target.value) : parseFloat(e.target.value);
+          if (Number.isNaN(v) || v < min) return;
+          setOptions({ ...options, [key]: v });
+        }}
+        className="w-20 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-right text-slate-200"
+      />
+    </label>
+  );
+
+  const selectClass = 'w-24 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-lg p-4 w-80 space-y-2 text-xs font-mono shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2 font-sans">
+          <h2 className="text-sm font-bold text-slate-200">Generate Scene</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <h3 className="text-[10px] font-bold text-slate-500 font-sans pt-1">GRID</h3>
+        {numberField('cols', 'cells x', 1)}
+        {numberField('rows', 'cells y', 1)}
+        {numberField('spacing', 'spacing', 0.001, 0.1)}
+
+        <h3 className="text-[10px] font-bold text-slate-500 font-sans pt-1">PARTICLES</h3>
+        {/* Gauss points come in n x n; jittered points take any count per cell */}
+        {options.layout === 'gauss'
+          ? numberField('particlesPerSide', 'per cell side', 1)
+          : numberField('particlesPerCell', 'per cell', 1)}
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">layout</span>
+          <select
+            value={options.layout}
+            onChange={(e) => setOptions({ ...options, layout: e.target.value as ParticleLayout })}
+            className={selectClass}
+          >
+            <option value="gauss">Gauss points</option>
+            <option value="jittered">Jittered</option>
+          </select>
+        </label>
+
+        <h3 className="text-[10px] font-bold text-slate-500 font-sans pt-1">CRACKS</h3>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">pattern</span>
+          <select
+            value={options.crackPattern}
+            onChange={(e) => setOptions({ ...options, crackPattern: e.target.value as CrackPattern })}
+            className={selectClass}
+          >
+            {(Object.keys(crackPatternLabels) as CrackPattern[]).map(p => (
+              <option key={p} value={p}>{crackPatternLabels[p]}</option>
+            ))}
+          </select>
+        </label>
+        {options.crackPattern !== 'none' && (
+          <>
+            {numberField('crackCount', 'count', 1)}
+            {numberField('segmentsPerCrack', 'segments', 1)}
+          </>
+        )}
+
+        <div className="flex items-center gap-2 pt-1">
+          <div className="flex-1">{numberField('seed', 'seed', 0)}</div>
+          <button
+            onClick={() => setOptions({ ...options, seed: Math.floor(Math.random() * 1e6) })}
+            title="Random seed"
+            className="p-1 rounded bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700"
+          >
+            <Dices size={14} />
+          </button>
+        </div>
+
+        <p className="text-[10px] text-slate-500 break-words" title="Quote this to reproduce the scene">
+          {describeGeneratorOptions(options)}
+        </p>
+
+        <div className="flex justify-end gap-2 pt-2 font-sans">
+          <button onClick={onClose} className="px-3 py-1.5 rounded bg-slate-800 hover:bg-slate-700">Cancel</button>
+          <button
+            onClick={() => onGenerate(generateScene(options), describeGeneratorOptions(options))}
+            className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium"
+          >
+            Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneGeneratorDialog;
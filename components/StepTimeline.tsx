@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { SimulationStep } from '../types';
+import { buildTimeline, EventKind, PhaseKind } from '../timeline';
+
+interface StepTimelineProps {
+  steps: SimulationStep[];
+  currentStepIndex: number;
+  onSeek: (index: number) => void;
+}
+
+const phaseColors: Record<PhaseKind, string> = {
+  init: 'bg-slate-600/40',
+  crossing: 'bg-blue-600/30',
+  consistency: 'bg-purple-600/30',
+  done: 'bg-green-600/40'
+};
+
+const eventColors: Record<EventKind, string> = {
+  crack: 'bg-red-500',
+  result: 'bg-yellow-400',
+  normalization: 'bg-purple-400',
+  warning: 'bg-red-400',
+  tip: 'bg-orange-400',
+  interaction: 'bg-pink-400'
+};
+
+// Taller ticks for rarer, more important events
+const eventHeights: Record<EventKind, string> = {
+  crack: 'h-4',
+  result: 'h-2',
+  normalization: 'h-3',
+  warning: 'h-4',
+  tip: 'h-3',
+  interaction: 'h-4'
+};
+
+const StepTimeline: React.FC<StepTimelineProps> = ({ steps, currentStepIndex, onSeek }) => {
+  const { phases, events } = useMemo(() => buildTimeline(steps), [steps]);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const lastIndex = Math.max(1, steps.length - 1);
+  const percent = (index: number) => (index / lastIndex) * 100;
+
+  // Step under the cursor while hovering the marker track
+  const indexAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    return Math.round(ratio * lastIndex);
+  };
+
+  const hoverStep = hoverIndex !== null ? steps[hoverIndex] : undefined;
+
+  return (
+    <div className="flex-1 flex items-center gap-3 min-w-0">
+      <span className="text-xs font-mono text-slate-500 w-8 text-right">{currentStepIndex}</span>
+
+      <div className="flex-1 relative flex flex-col gap-1 min-w-0">
+        {/* Phase bands and event ticks */}
+        <div
+          className="relative h-4 cursor-pointer"
+          onMouseMove={(e) => setHoverIndex(indexAt(e))}
+          onMouseLeave={() => setHoverIndex(null)}
+          onClick={(e) => onSeek(indexAt(e))}
+        >
+          {phases.map(band => (
+            <div
+              key={`${band.kind}-${band.start}`}
+              className={`absolute top-1 h-2 rounded-sm ${phaseColors[band.kind]}`}
+              style={{ left: `${percent(band.start)}%`, width: `${Math.max(0.5, percent(band.end) - percent(band.start))}%` }}
+            />
+          ))}
+          {events.map(ev => (
+            <div
+              key={`${ev.kind}-${ev.index}`}
+              className={`absolute bottom-0 w-0.5 ${eventHeights[ev.kind]} ${eventColors[ev.kind]}`}
+              style={{ left: `${percent(ev.index)}%` }}
+              onMouseEnter={() => setHoverIndex(ev.index)}
+              onClick={(e) => { e.stopPropagation(); onSeek(ev.index); }}
+            />
+          ))}
+        </div>
+
+        <input
+          type="range"
+          min="0"
+          max={steps.length - 1}
+          value={currentStepIndex}
+          onChange={(e) => onSeek(parseInt(e.target.value))}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+        />
+
+        {hoverStep && (
+          <div
+            className="absolute bottom-full mb-2 -translate-x-1/2 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-[10px] font-mono text-slate-200 whitespace-nowrap pointer-events-none z-20"
+            style={{ left: `${percent(hoverIndex!)}%` }}
+          >
+            <span className="text-slate-500 mr-2">#{hoverIndex}</span>{hoverStep.description}
+          </div>
+        )}
+      </div>
+
+      <span className="text-xs font-mono text-slate-500 w-8">{steps.length - 1}</span>
+    </div>
+  );
+};
+
+export default StepTimeline;
@@ -1,67 +1,208 @@
 
-import React, { useRef, useState } from 'react';
-import { Node, Particle, Crack, SimulationStep, Point } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Node, Particle, Crack, SimulationStep, FieldState, StepFocus, Point, GridConfig } from '../types';
+import { latticePosition, supportBounds, GIMP_HALF_WIDTH } from '../grid';
+import { EditTool } from '../editing';
+import { findCrackTips } from '../crackTips';
+import { ViewTransform, DEFAULT_VIEW, worldToScreen, screenToWorld, zoomAt, panBy, fitView } from '../viewTransform';
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+import { fieldName } from '../utils';
+import { crackCountsByNode } from '../crackInteractions';
+import { isConsistencyStep, isCrossingCheck, isInteractionStep, isTipStep } from '../steps';
 import * as d3 from 'd3';
 
 interface VisualizerProps {
   nodes: Node[];
   particles: Particle[];
   cracks: Crack[];
+  grid: GridConfig;
   currentStep: SimulationStep;
+  fields: FieldState; // Field state after currentStep
+  diagnosticNodeIds: Set<number>; // Nodes with a crack limit or intersection diagnostic in this run
+  mismatchKeys: Set<string>; // Pairs whose fields differ from a loaded reference file
+  tool: EditTool;
   onUpdateNode: (id: number, pos: Point) => void;
   onUpdateParticle: (id: number, pos: Point) => void;
   onUpdateCrack: (id: number, pointIdx: number, pos: Point) => void;
+  onDragEnd: () => void; // A node, particle or crack point drag was released
   onSplitCrack: (id: number, segmentIdx: number, pos: Point) => void;
+  onAddNode: (pos: Point) => void;
+  onAddParticle: (pos: Point) => void;
+  onAddCrack: (points: Point[]) => void;
+  onDeleteNode: (id: number) => void;
+  onDeleteParticle: (id: number) => void;
+  onDeleteCrack: (id: number) => void;
+  onReverseCrack: (id: number) => void;
+  onRemoveCrackPoint: (id: number, pointIdx: number) => void;
+  onDropFile: (file: File) => void;
+  onFocusEntity: (focus: StepFocus) => void; // Double-click: step through this node or particle only
+  fitRequest: number; // Changing this value re-fits the view to the scene
+  svgRef: React.RefObject<SVGSVGElement>; // The canvas, for frame export
 }
 
 const Visualizer: React.FC<VisualizerProps> = ({
   nodes,
   particles,
   cracks,
+  grid,
   currentStep,
+  fields,
+  diagnosticNodeIds,
+  mismatchKeys,
+  tool,
   onUpdateNode,
   onUpdateParticle,
   onUpdateCrack,
-  onSplitCrack
+  onDragEnd,
+  onSplitCrack,
+  onAddNode,
+  onAddParticle,
+  onAddCrack,
+  onDeleteNode,
+  onDeleteParticle,
+  onDeleteCrack,
+  onReverseCrack,
+  onRemoveCrackPoint,
+  onDropFile,
+  onFocusEntity,
+  fitRequest,
+  svgRef
 }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
   // dragState now tracks which point index in the crack is being dragged
   const [dragState, setDragState] = useState<{type: 'node'|'particle'|'crack', id: number, pointIdx?: number} | null>(null);
+  const [hoveredParticleId, setHoveredParticleId] = useState<number | null>(null);
+  // Points of the crack polyline being drawn with the crack tool, plus the live cursor position
+  const [draftCrack, setDraftCrack] = useState<Point[]>([]);
+  const [cursorPoint, setCursorPoint] = useState<Point | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  // null colors by the combined field, otherwise by the field of the crack at this index
+  const [colorByCrack, setColorByCrack] = useState<number | null>(null);
+  const [hoveredPair, setHoveredPair] = useState<{ nodeId: number, particleId: number, x: number, y: number } | null>(null);
+
+  const [view, setView] = useState<ViewTransform>(DEFAULT_VIEW);
+  const [panState, setPanState] = useState<{ clientX: number, clientY: number, view: ViewTransform } | null>(null);
+
+  // Cracks splitting each node's pairs at the current step, shown as a badge
+  const crackCounts = useMemo(() => crackCountsByNode(fields.crackFields), [fields]);
+
+  // What the current step draws on the canvas, by step kind
+  const check = isCrossingCheck(currentStep) ? currentStep : null;
+  const consistency = isConsistencyStep(currentStep) ? currentStep : null;
+  const interactionNodeIds = isInteractionStep(currentStep) ? currentStep.interactionNodeIds : [];
+  const tipCell = isTipStep(currentStep) ? currentStep.tipCell : undefined;
+  const tipPairKeys = currentStep.kind === 'crackTip' ? currentStep.tipPairKeys : [];
+  const segmentIndex = currentStep.kind === 'segmentCheck' ? currentStep.highlightSegmentIndex : undefined;
 
   const width = 600;
   const height = 500;
-  const scale = 40;
-  const margin = 50;
 
-  const toScreen = (p: Point) => ({
-    x: p.x * scale + margin,
-    y: height - (p.y * scale + margin)
-  });
+  const toScreen = (p: Point) => worldToScreen(view, height, p);
+  const fromScreen = (x: number, y: number): Point => screenToWorld(view, height, x, y);
+
+  // Client pixels -> viewBox units (the SVG is scaled to fit its container)
+  const clientToViewBox = (clientX: number, clientY: number): Point | null => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left) * width / rect.width,
+      y: (clientY - rect.top) * height / rect.height
+    };
+  };
+
+  const eventToWorld = (e: React.MouseEvent): Point | null => {
+    const sp = clientToViewBox(e.clientX, e.clientY);
+    return sp && fromScreen(sp.x, sp.y);
+  };
+
+  const fitToScene = () => {
+    const points: Point[] = [
+      ...nodes,
+      ...particles,
+      ...cracks.flatMap(c => c.points),
+      latticePosition(grid, 0, 0),
+      latticePosition(grid, grid.cols, grid.rows)
+    ];
+    setView(fitView(points, width, height));
+  };
+
+  useEffect(fitToScene, [fitRequest]);
+
+  // Wheel zoom around the cursor. Registered natively because React's wheel
+  // listener is passive and could not stop the page from scrolling.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const sp = clientToViewBox(e.clientX, e.clientY);
+      if (!sp) return;
+      setView(prev => zoomAt(prev, height, sp.x, sp.y, Math.exp(-e.deltaY * 0.0015)));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomCenter = (factor: number) => setView(prev => zoomAt(prev, height, width / 2, height / 2, factor));
+
+  const finishDraftCrack = (points: Point[]) => {
+    // A double-click also fires two clicks, so drop consecutive duplicates first
+    const deduped = points.filter((pt, i) =>
+      i === 0 || Math.hypot(pt.x - points[i - 1].x, pt.y - points[i - 1].y) > 1e-6
+    );
+    if (deduped.length >= 2) onAddCrack(deduped);
+    setDraftCrack([]);
+  };
+
+  // Leaving the crack tool discards an unfinished polyline
+  useEffect(() => {
+    if (tool !== 'crack') setDraftCrack([]);
+  }, [tool]);
 
-  const fromScreen = (x: number, y: number): Point => ({
-    x: (x - margin) / scale,
-    y: (height - y - margin) / scale
+  useEffect(() => {
+    if (tool !== 'crack') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDraftCrack([]);
+      if (e.key === 'Enter') finishDraftCrack(draftCrack);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   });
 
   const handlePointerDown = (type: 'node'|'particle'|'crack', id: number, pointIdx?: number) => (e: React.PointerEvent) => {
     e.stopPropagation(); // Prevent triggering SVG click
+    if (tool === 'reverse') {
+      if (type === 'crack') onReverseCrack(id);
+      return;
+    }
+    if (tool === 'delete') {
+      if (type === 'node') onDeleteNode(id);
+      if (type === 'particle') onDeleteParticle(id);
+      if (type === 'crack' && pointIdx !== undefined) onRemoveCrackPoint(id, pointIdx);
+      return;
+    }
     e.currentTarget.setPointerCapture(e.pointerId);
     setDragState({ type, id, pointIdx });
   };
 
+  // Drag on empty canvas pans (left button with the select tool, middle button always)
+  const handleCanvasPointerDown = (e: React.PointerEvent) => {
+    if (!(e.button === 1 || (e.button === 0 && tool === 'select'))) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPanState({ clientX: e.clientX, clientY: e.clientY, view });
+  };
+
   const handlePointerMove = (e: React.PointerEvent) => {
+    if (tool === 'crack') setCursorPoint(eventToWorld(e));
+    if (panState) {
+      const start = clientToViewBox(panState.clientX, panState.clientY);
+      const current = clientToViewBox(e.clientX, e.clientY);
+      if (start && current) setView(panBy(panState.view, current.x - start.x, current.y - start.y));
+      return;
+    }
     if (!dragState) return;
-    const svg = svgRef.current;
-    if (!svg) return;
-    
-    const rect = svg.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    const point = fromScreen(x, y);
-    
-    // Clamp
-    point.x = Math.max(0, Math.min(12, point.x));
-    point.y = Math.max(0, Math.min(10, point.y));
+    const point = eventToWorld(e);
+    if (!point) return;
 
     if (dragState.type === 'node') onUpdateNode(dragState.id, point);
     if (dragState.type === 'particle') onUpdateParticle(dragState.id, point);
@@ -71,19 +212,128 @@ const Visualizer: React.FC<VisualizerProps> = ({
   };
 
   const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragState) onDragEnd();
     setDragState(null);
+    setPanState(null);
     e.currentTarget.releasePointerCapture(e.pointerId);
   };
 
+  // Clicks on empty canvas create entities with the active tool
+  const handleCanvasClick = (e: React.MouseEvent) => {
+    if ((e.target as Element).closest('[data-entity]')) return;
+    const point = eventToWorld(e);
+    if (!point) return;
+
+    if (tool === 'node') onAddNode(point);
+    if (tool === 'particle') onAddParticle(point);
+    if (tool === 'crack') setDraftCrack(prev => [...prev, point]);
+  };
+
+  const handleCanvasDoubleClick = () => {
+    if (tool === 'crack') finishDraftCrack(draftCrack);
+  };
+
   const handleSegmentDoubleClick = (crackId: number, segmentIdx: number) => (e: React.MouseEvent) => {
     e.stopPropagation();
-    const svg = svgRef.current;
-    if (!svg) return;
-    const rect = svg.getBoundingClientRect();
-    const point = fromScreen(e.clientX - rect.left, e.clientY - rect.top);
+    if (tool !== 'select') return;
+    const point = eventToWorld(e);
+    if (!point) return;
     onSplitCrack(crackId, segmentIdx, point);
   };
 
+  const handleSegmentClick = (crackId: number) => (e: React.MouseEvent) => {
+    if (tool !== 'delete' && tool !== 'reverse') return;
+    e.stopPropagation();
+    if (tool === 'delete') onDeleteCrack(crackId);
+    else onReverseCrack(crackId);
+  };
+
+  const handleEntityDoubleClick = (focus: StepFocus) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (tool === 'select') onFocusEntity(focus);
+  };
+
+  // Scene files can be dropped straight onto the canvas
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) onDropFile(file);
+  };
+
+  const renderDraftCrack = () => {
+    if (draftCrack.length === 0) return null;
+    const pts = (cursorPoint ? [...draftCrack, cursorPoint] : draftCrack).map(toScreen);
+    return (
+      <g pointerEvents="none">
+        <polyline
+          points={pts.map(pt => `${pt.x},${pt.y}`).join(' ')}
+          fill="none" stroke="#f87171" strokeWidth={3} strokeDasharray="6 4" strokeLinecap="round"
+        />
+        {draftCrack.map((pt, i) => {
+          const sp = toScreen(pt);
+          return <circle key={`draft-${i}`} cx={sp.x} cy={sp.y} r={5} fill="#f87171" />;
+        })}
+      </g>
+    );
+  };
+
+  const cursorClass = {
+    select: 'cursor-crosshair',
+    node: 'cursor-copy',
+    particle: 'cursor-copy',
+    crack: 'cursor-cell',
+    delete: 'cursor-not-allowed',
+    reverse: 'cursor-default'
+  }[tool];
+  const entityCursor = tool === 'delete' || tool === 'reverse' ? 'cursor-pointer' : 'cursor-move';
+
+  // Direction arrow at each segment's midpoint plus a tick towards the "above" side
+  // (left of start -> end), where checkCrossing's field 2 particles lie. Directions are
+  // taken in world space and mapped, so they stay right whatever the view transform.
+  const renderCrackOrientation = (c: Crack) => (
+    <g pointerEvents="none">
+      {c.points.slice(0, -1).map((a, i) => {
+        const b = c.points[i + 1];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) return null;
+        const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        const s = toScreen(mid);
+        const screenDir = (d: Point) => {
+          const t = toScreen({ x: mid.x + d.x, y: mid.y + d.y });
+          const l = Math.hypot(t.x - s.x, t.y - s.y);
+          return { x: (t.x - s.x) / l, y: (t.y - s.y) / l };
+        };
+        const dir = screenDir({ x: (b.x - a.x) / length, y: (b.y - a.y) / length });
+        const above = screenDir({ x: -(b.y - a.y) / length, y: (b.x - a.x) / length });
+        const tip = { x: s.x + dir.x * 7, y: s.y + dir.y * 7 };
+        const back = { x: s.x - dir.x * 5, y: s.y - dir.y * 5 };
+        const tick = { x: s.x + above.x * 16, y: s.y + above.y * 16 };
+        return (
+          <g key={`dir-${i}`}>
+            <line x1={s.x} y1={s.y} x2={tick.x} y2={tick.y} stroke="#f59e0b" strokeWidth={1.5} />
+            <circle cx={tick.x} cy={tick.y} r={2} fill="#f59e0b" />
+            <polygon
+              points={`${tip.x},${tip.y} ${back.x + above.x * 5},${back.y + above.y * 5} ${back.x - above.x * 5},${back.y - above.y * 5}`}
+              fill="#fecaca"
+            />
+            {i === 0 && (
+              <text x={tick.x + above.x * 10} y={tick.y + above.y * 10 + 3} fill="#fbbf24" textAnchor="middle" fontSize="9">
+                above
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+
   // Color generator for fields > 1
   const getFieldColor = (fieldVal: number) => {
     if (fieldVal === 1) return '#475569'; // Default Gray
@@ -98,9 +348,186 @@ const Visualizer: React.FC<VisualizerProps> = ({
        '#14b8a6', // 8 (Teal)
        '#f97316', // 9 (Orange)
     ];
-    return colors[(fieldVal - 2) % colors.length];
+    // Negative values hold an extra field (see combineFields); they share the scale, dotted
+    return colors[(Math.abs(fieldVal) - 2) % colors.length];
+  };
+
+  // Reference grid with "nice" tick spacing for the visible range, roughly every 60px
+  const renderBackgroundGrid = () => {
+    const min = fromScreen(0, height);
+    const max = fromScreen(width, 0);
+    const xTicks = d3.ticks(min.x, max.x, Math.round(width / 60));
+    const yTicks = d3.ticks(min.y, max.y, Math.round(height / 60));
+    const format = d3.format('~g');
+    return (
+      <g pointerEvents="none">
+        <g opacity={0.1}>
+          {xTicks.map(x => (
+            <line key={`v${x}`} x1={toScreen({x, y: 0}).x} y1={0} x2={toScreen({x, y: 0}).x} y2={height} stroke="white" strokeWidth={1}/>
+          ))}
+          {yTicks.map(y => (
+            <line key={`h${y}`} x1={0} y1={toScreen({x: 0, y}).y} x2={width} y2={toScreen({x: 0, y}).y} stroke="white" strokeWidth={1}/>
+          ))}
+        </g>
+        <g fill="#64748b" fontSize="9" fontFamily="monospace">
+          {xTicks.map(x => (
+            <text key={`lx${x}`} x={toScreen({x, y: 0}).x + 2} y={height - 4}>{format(x)}</text>
+          ))}
+          {yTicks.map(y => (
+            <text key={`ly${y}`} x={4} y={toScreen({x: 0, y}).y - 2}>{format(y)}</text>
+          ))}
+        </g>
+      </g>
+    );
+  };
+
+  // Hide entity labels when they would overlap at the current zoom
+  const cellPixels = view.scale * grid.spacing;
+  const showNodeLabels = cellPixels >= 24;
+  const showParticleLabels = cellPixels >= 48;
+
+  const renderGridCells = () => {
+    const start = toScreen(latticePosition(grid, 0, 0));
+    const end = toScreen(latticePosition(grid, grid.cols, grid.rows));
+    return (
+      <g pointerEvents="none" opacity={0.35}>
+        {d3.range(0, grid.cols + 1).map(i => {
+          const x = toScreen(latticePosition(grid, i, 0)).x;
+          return <line key={`gc${i}`} x1={x} y1={start.y} x2={x} y2={end.y} stroke="#94a3b8" strokeWidth={1} />;
+        })}
+        {d3.range(0, grid.rows + 1).map(j => {
+          const y = toScreen(latticePosition(grid, 0, j)).y;
+          return <line key={`gr${j}`} x1={start.x} y1={y} x2={end.x} y2={y} stroke="#94a3b8" strokeWidth={1} />;
+        })}
+      </g>
+    );
+  };
+
+  // Shade the nodes' support region for the highlighted (or hovered) particle
+  const renderSupportRegion = () => {
+    const particleId = hoveredParticleId ?? currentStep.highlightParticleId;
+    const p = particles.find(pt => pt.id === particleId);
+    if (!p) return null;
+    const bounds = supportBounds(grid, p);
+    if (!bounds) return null;
+
+    const min = toScreen(bounds.min);
+    const max = toScreen(bounds.max);
+    const half = GIMP_HALF_WIDTH * grid.spacing * view.scale;
+    const sp = toScreen(p);
+    return (
+      <g pointerEvents="none">
+        <rect
+          x={min.x} y={max.y} width={max.x - min.x} height={min.y - max.y}
+          fill="#22c55e" fillOpacity={0.08} stroke="#22c55e" strokeOpacity={0.5} strokeDasharray="6 3"
+        />
+        {grid.support === 'gimp' && (
+          <rect
+            x={sp.x - half} y={sp.y - half} width={half * 2} height={half * 2}
+            fill="none" stroke="#86efac" strokeOpacity={0.6} strokeDasharray="2 2"
+          />
+        )}
+      </g>
+    );
+  };
+
+  // Tip zone: the cell holding a crack tip and the crack's continuation to its edge
+  const renderTipZones = () => (
+    <g pointerEvents="none">
+      {cracks.flatMap(c => findCrackTips(c, nodes, grid)).map(tip => {
+        const min = toScreen(latticePosition(grid, tip.cell.i, tip.cell.j));
+        const max = toScreen(latticePosition(grid, tip.cell.i + 1, tip.cell.j + 1));
+        const isActive = currentStep.highlightCrackId === tip.crackId &&
+          (tipCell?.i === tip.cell.i && tipCell?.j === tip.cell.j);
+        const ext = tip.extension?.map(toScreen);
+        return (
+          <g key={`tip-${tip.crackId}-${tip.end}`}>
+            <rect
+              x={min.x} y={max.y} width={max.x - min.x} height={min.y - max.y}
+              fill="#f97316" fillOpacity={isActive ? 0.18 : 0.07}
+              stroke="#f97316" strokeOpacity={isActive ? 0.8 : 0.35} strokeDasharray="3 3"
+            />
+            {ext && (
+              <line x1={ext[0].x} y1={ext[0].y} x2={ext[1].x} y2={ext[1].y} stroke="#fb923c" strokeWidth={2} strokeDasharray="5 4" />
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+
+  // Per-crack styling: color and dash pattern per field value
+  const crackFieldStyles: Record<number, { color: string, dash: string }> = {
+    1: { color: '#475569', dash: '0' },
+    2: { color: '#f59e0b', dash: '6 3' },
+    3: { color: '#8b5cf6', dash: '2 3' },
+    4: { color: '#ef4444', dash: '1 2' }
+  };
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const particleById = new Map(particles.map(p => [p.id, p]));
+  const pairEntities = (key: string): [Node | undefined, Particle | undefined] => {
+    const [nodeId, particleId] = key.split('-').map(Number);
+    return [nodeById.get(nodeId), particleById.get(particleId)];
+  };
+
+  const isAllOnes = (tuple: number[] | undefined) => !tuple || tuple.every(f => f === 1);
+
+  const pairStyle = (key: string) => {
+    const tuple = fields.crackFields[key];
+    if (colorByCrack !== null) return crackFieldStyles[tuple?.[colorByCrack] ?? 1];
+    if (isAllOnes(tuple)) return crackFieldStyles[1];
+    return { color: getFieldColor(fields.combined[key]), dash: fields.combined[key] < 0 ? '1 2' : '4 4' };
+  };
+
+  const crackLabel = (idx: number) => `Crack ${(cracks[idx]?.id ?? idx) + 1}`;
+
+  const describeTuple = (tuple: number[]) =>
+    tuple.map((f, idx) => `${crackLabel(idx)}: ${fieldName(f)}`).join(', ');
+
+  const renderPairTooltip = () => {
+    if (!hoveredPair) return null;
+    const key = `${hoveredPair.nodeId}-${hoveredPair.particleId}`;
+    const tuple = fields.crackFields[key];
+    if (!tuple) return null;
+
+    const lines = [
+      `N${hoveredPair.nodeId}-P${hoveredPair.particleId}  (combined ${fields.combined[key]})`,
+      ...tuple.map((f, idx) => `${crackLabel(idx)}: ${fieldName(f)}`)
+    ];
+    const boxWidth = Math.max(...lines.map(l => l.length)) * 6 + 12;
+    const boxHeight = lines.length * 13 + 8;
+    const x = Math.min(hoveredPair.x + 12, width - boxWidth - 4);
+    const y = Math.min(hoveredPair.y + 12, height - boxHeight - 4);
+    return (
+      <g pointerEvents="none" transform={`translate(${x}, ${y})`}>
+        <rect width={boxWidth} height={boxHeight} rx={4} fill="#0f172a" fillOpacity={0.95} stroke="#475569" />
+        {lines.map((line, i) => (
+          <text key={i} x={6} y={16 + i * 13} fill={i === 0 ? '#e2e8f0' : '#94a3b8'} fontSize="10" fontFamily="monospace">{line}</text>
+        ))}
+      </g>
+    );
   };
 
+  // Legend entries for the pairs present in the current step
+  const legendEntries = (): { key: string, color: string, dash: string, label: string }[] => {
+    if (colorByCrack !== null) {
+      return [1, 2, 3, 4].map(f => ({ key: `f${f}`, ...crackFieldStyles[f], label: `${crackLabel(colorByCrack)}: ${fieldName(f)}` }));
+    }
+    const byCombined = new Map<number, number[]>();
+    Object.entries(fields.crackFields).forEach(([key, tuple]) => {
+      byCombined.set(fields.combined[key], tuple);
+    });
+    return Array.from(byCombined.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([combined, tuple]) => {
+        const style = isAllOnes(tuple) ? crackFieldStyles[1] : { color: getFieldColor(combined), dash: combined < 0 ? '1 2' : '4 4' };
+        return { key: `c${combined}`, ...style, label: `${combined}: ${describeTuple(tuple)}` };
+      });
+  };
+
+  const legend = legendEntries();
+
   const renderTriangle = (points: Point[], color: string, label: string) => {
     if (!points || points.length !== 3) return null;
     const [p1, p2, p3] = points.map(toScreen);
@@ -120,155 +547,252 @@ const Visualizer: React.FC<VisualizerProps> = ({
   };
 
   return (
-    <svg 
-      ref={svgRef}
-      className="w-full h-full bg-slate-900 rounded-lg shadow-inner border border-slate-700 select-none cursor-crosshair"
-      viewBox={`0 0 ${width} ${height}`}
-      onPointerMove={handlePointerMove}
-      onPointerUp={handlePointerUp}
-    >
-      <g opacity={0.1}>
-        {d3.range(0, 13).map(i => (
-           <line key={`v${i}`} x1={toScreen({x: i, y: 0}).x} y1={0} x2={toScreen({x: i, y: 0}).x} y2={height} stroke="white" strokeWidth={1}/>
-        ))}
-        {d3.range(0, 11).map(i => (
-           <line key={`h${i}`} x1={0} y1={toScreen({x: 0, y: i}).y} x2={width} y2={toScreen({x: 0, y: i}).y} stroke="white" strokeWidth={1}/>
-        ))}
-      </g>
+    <div className="relative w-full h-full">
+      <svg 
+        ref={svgRef}
+        className={`w-full h-full bg-slate-900 rounded-lg shadow-inner border select-none ${cursorClass} ${isDragOver ? 'border-blue-400' : 'border-slate-700'}`}
+        viewBox={`0 0 ${width} ${height}`}
+        onPointerDown={handleCanvasPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onClick={handleCanvasClick}
+        onDoubleClick={handleCanvasDoubleClick}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        {renderBackgroundGrid()}
+
+        {/* Background Grid Cells */}
+        {renderGridCells()}
+        {renderSupportRegion()}
+        {renderTipZones()}
 
-      {/* Connection Lines */}
-      <g>
-        {nodes.map(n => 
-          particles.map(p => {
-            const field = currentStep.currentFieldState[`${n.id}-${p.id}`];
-            if (field === undefined) return null;
+        {/* Connection Lines */}
+        <g>
+          {Object.keys(fields.combined).map(key => {
+            // The fields may still belong to a scene from before the latest edit
+            const [n, p] = pairEntities(key);
+            if (!n || !p) return null;
 
             const sn = toScreen(n);
             const sp = toScreen(p);
-            
+          
             const isActive = (currentStep.highlightNodeId === n.id && currentStep.highlightParticleId === p.id) || 
-                             (currentStep.consistencyNodeId === n.id);
-            
-            let val = field;
-            let allOnes = true;
-            while(val > 0) {
-                if (val % 3 !== 1) { allOnes = false; break; }
-                val = Math.floor(val / 3);
-            }
-            if (field === 0) allOnes = false; // Should not happen with 1-based indexing
-
-            const color = allOnes ? '#475569' : getFieldColor(field);
-            
+                             (consistency?.consistencyNodeId === n.id);
+            const isTipPair = tipPairKeys.includes(key);
+            const isMismatch = mismatchKeys.has(key);
+          
+            const style = pairStyle(key);
+
             return (
-              <line 
-                key={`${n.id}-${p.id}`}
-                x1={sn.x} y1={sn.y}
-                x2={sp.x} y2={sp.y}
-                stroke={isActive ? '#facc15' : color}
-                strokeWidth={isActive ? 3 : 1.5}
-                strokeOpacity={isActive ? 1 : 0.4}
-                strokeDasharray={allOnes ? "0" : "4 4"}
-              />
+              <g key={key}>
+                <line 
+                  x1={sn.x} y1={sn.y}
+                  x2={sp.x} y2={sp.y}
+                  stroke={isActive ? '#facc15' : isTipPair ? '#fb923c' : isMismatch ? '#ef4444' : style.color}
+                  strokeWidth={isActive || isTipPair || isMismatch ? 3 : 1.5}
+                  strokeOpacity={isActive || isTipPair || isMismatch ? 1 : 0.4}
+                  strokeDasharray={isMismatch ? undefined : style.dash}
+                  pointerEvents="none"
+                />
+                {/* Wider invisible hit target for the hover tooltip */}
+                <line
+                  x1={sn.x} y1={sn.y}
+                  x2={sp.x} y2={sp.y}
+                  stroke="transparent"
+                  strokeWidth={8}
+                  onPointerMove={(e) => {
+                    const pos = clientToViewBox(e.clientX, e.clientY);
+                    if (pos) setHoveredPair({ nodeId: n.id, particleId: p.id, ...pos });
+                  }}
+                  onPointerLeave={() => setHoveredPair(null)}
+                />
+              </g>
             );
-          })
-        )}
-      </g>
+          })}
+        </g>
 
-      {/* Debug Triangles */}
-      {currentStep.triangleA && renderTriangle(currentStep.triangleA, '#f87171', 'Area1')}
-      {currentStep.triangleB && renderTriangle(currentStep.triangleB, '#34d399', 'Area2')}
-      {currentStep.triangleC && renderTriangle(currentStep.triangleC, '#60a5fa', 'Area3')}
-      {currentStep.triangleD && renderTriangle(currentStep.triangleD, '#c084fc', 'Area4')}
+        {/* Debug Triangles */}
+        {check && renderTriangle(check.triangleA, '#f87171', 'Area1')}
+        {check && renderTriangle(check.triangleB, '#34d399', 'Area2')}
+        {check && renderTriangle(check.triangleC, '#60a5fa', 'Area3')}
+        {check && renderTriangle(check.triangleD, '#c084fc', 'Area4')}
 
-      {/* Cracks */}
-      {cracks.map((c) => {
-        // Draw Segments
-        return (
-          <g key={`c${c.id}`}>
-            {c.points.map((pt, i) => {
-              if (i === c.points.length - 1) return null;
-              const s = toScreen(pt);
-              const e = toScreen(c.points[i+1]);
-              const isHighlight = currentStep.highlightCrackId === c.id && 
-                                  (currentStep.highlightSegmentIndex === undefined || currentStep.highlightSegmentIndex === i);
-
-              return (
-                <line 
-                  key={`seg-${i}`}
-                  x1={s.x} y1={s.y} x2={e.x} y2={e.y}
-                  stroke={isHighlight ? '#ef4444' : '#dc2626'} 
-                  strokeWidth={4} strokeLinecap="round"
-                  className="cursor-pointer"
-                  onDoubleClick={handleSegmentDoubleClick(c.id, i)}
-                />
-              );
-            })}
+        {/* Cracks */}
+        {cracks.map((c) => {
+          // Draw Segments
+          return (
+            <g key={`c${c.id}`} data-entity="crack">
+              {c.points.map((pt, i) => {
+                if (i === c.points.length - 1) return null;
+                const s = toScreen(pt);
+                const e = toScreen(c.points[i+1]);
+                const isHighlight = currentStep.highlightCrackId === c.id && 
+                                    (segmentIndex === undefined || segmentIndex === i);
+
+                return (
+                  <line 
+                    key={`seg-${i}`}
+                    x1={s.x} y1={s.y} x2={e.x} y2={e.y}
+                    stroke={isHighlight ? '#ef4444' : '#dc2626'} 
+                    strokeWidth={4} strokeLinecap="round"
+                    className="cursor-pointer"
+                    onClick={handleSegmentClick(c.id)}
+                    onDoubleClick={handleSegmentDoubleClick(c.id, i)}
+                  />
+                );
+              })}
             
-            {/* Draw Points */}
-            {c.points.map((pt, i) => {
-              const s = toScreen(pt);
-              return (
-                <circle 
-                  key={`pt-${i}`}
-                  cx={s.x} cy={s.y} r={6} 
-                  fill="#ef4444" 
-                  className="cursor-move hover:stroke-white" 
-                  strokeWidth={2} stroke="transparent"
-                  onPointerDown={handlePointerDown('crack', c.id, i)}
-                />
-              );
-            })}
-          </g>
-        );
-      })}
+              {renderCrackOrientation(c)}
+
+              {/* Draw Points */}
+              {c.points.map((pt, i) => {
+                const s = toScreen(pt);
+                return (
+                  <circle 
+                    key={`pt-${i}`}
+                    cx={s.x} cy={s.y} r={6} 
+                    fill="#ef4444" 
+                    className={`${entityCursor} hover:stroke-white`}
+                    strokeWidth={2} stroke="transparent"
+                    onPointerDown={handlePointerDown('crack', c.id, i)}
+                  />
+                );
+              })}
+            </g>
+          );
+        })}
+
+        {/* Crack intersection of the current diagnostic step */}
+        {currentStep.kind === 'crackIntersection' && (() => {
+          const s = toScreen(currentStep.crackIntersection);
+          return (
+            <g pointerEvents="none">
+              <circle cx={s.x} cy={s.y} r={10} fill="none" stroke="#f472b6" strokeWidth={2} />
+              <path d={`M ${s.x - 5} ${s.y - 5} L ${s.x + 5} ${s.y + 5} M ${s.x - 5} ${s.y + 5} L ${s.x + 5} ${s.y - 5}`} stroke="#f472b6" strokeWidth={2} />
+            </g>
+          );
+        })()}
 
-      {/* Nodes */}
-      {nodes.map((n, i) => {
-        const s = toScreen(n);
-        const isHighlight = currentStep.highlightNodeId === n.id;
-        const isConsistency = currentStep.consistencyNodeId === n.id;
+        {/* Nodes */}
+        {nodes.map(n => {
+          const s = toScreen(n);
+          const isHighlight = currentStep.highlightNodeId === n.id;
+          const isConsistency = consistency?.consistencyNodeId === n.id;
+          const isInteraction = interactionNodeIds.includes(n.id);
+          const crackCount = crackCounts.get(n.id) ?? 0;
         
-        let fillColor = '#3b82f6';
-        let strokeColor = 'none';
-        if (isConsistency) {
-            fillColor = '#8b5cf6';
-            strokeColor = 'white';
-        } else if (isHighlight) {
-            fillColor = '#60a5fa';
-            strokeColor = 'white';
-        }
+          let fillColor = '#3b82f6';
+          let strokeColor = 'none';
+          if (isConsistency) {
+              fillColor = '#8b5cf6';
+              strokeColor = 'white';
+          } else if (isHighlight) {
+              fillColor = '#60a5fa';
+              strokeColor = 'white';
+          }
+          if (isInteraction) strokeColor = '#f472b6';
 
-        return (
-          <g key={`n${n.id}`} onPointerDown={handlePointerDown('node', n.id)} className="cursor-move">
-            <rect x={s.x - 8} y={s.y - 8} width={16} height={16} fill={fillColor} stroke={strokeColor} strokeWidth={2} />
-            <text x={s.x} y={s.y - 12} fill="#93c5fd" textAnchor="middle" fontSize="10">N{i}</text>
-            
-            {/* Consistency Check Helper Text */}
-            {isConsistency && currentStep.consistencyFields && (
-                <g transform={`translate(${s.x}, ${s.y + 25})`}>
-                    <rect x="-30" y="0" width="60" height="20" rx="4" fill="#8b5cf6" />
-                    <text x="0" y="14" fill="white" textAnchor="middle" fontSize="10" fontWeight="bold">
-                        Seen: [{currentStep.consistencyFields.join(',')}]
-                    </text>
+          return (
+            <g key={`n${n.id}`} data-entity="node" onPointerDown={handlePointerDown('node', n.id)} onDoubleClick={handleEntityDoubleClick({ kind: 'node', id: n.id })} className={entityCursor}>
+              <rect x={s.x - 8} y={s.y - 8} width={16} height={16} fill={fillColor} stroke={strokeColor} strokeWidth={2} />
+              {(showNodeLabels || isHighlight || isConsistency) && (
+                <text x={s.x} y={s.y - 12} fill="#93c5fd" textAnchor="middle" fontSize="10">N{n.id}</text>
+              )}
+
+              {/* Crack count badge */}
+              {(crackCount > 0 || diagnosticNodeIds.has(n.id)) && (
+                <g transform={`translate(${s.x + 10}, ${s.y - 10})`} pointerEvents="none">
+                  <circle r={6} fill={diagnosticNodeIds.has(n.id) ? '#db2777' : '#b45309'} stroke="#0f172a" strokeWidth={1} />
+                  <text y={3} fill="white" textAnchor="middle" fontSize="8" fontWeight="bold">{crackCount}</text>
                 </g>
-            )}
-          </g>
-        );
-      })}
+              )}
+            
+              {/* Consistency Check Helper Text */}
+              {isConsistency && consistency && (
+                  <g transform={`translate(${s.x}, ${s.y + 25})`}>
+                      <rect x="-30" y="0" width="60" height="20" rx="4" fill="#8b5cf6" />
+                      <text x="0" y="14" fill="white" textAnchor="middle" fontSize="10" fontWeight="bold">
+                          Seen: [{consistency.consistencyFields.join(',')}]
+                      </text>
+                  </g>
+              )}
+            </g>
+          );
+        })}
 
-      {/* Particles */}
-      {particles.map((p, i) => {
-        const s = toScreen(p);
-        const isHighlight = currentStep.highlightParticleId === p.id;
-        return (
-          <g key={`p${p.id}`} onPointerDown={handlePointerDown('particle', p.id)} className="cursor-move">
-            <circle cx={s.x} cy={s.y} r={8} fill={isHighlight ? '#4ade80' : '#22c55e'} stroke={isHighlight ? 'white' : 'none'} strokeWidth={2} />
-            <text x={s.x} y={s.y + 20} fill="#86efac" textAnchor="middle" fontSize="10" fontWeight="bold">P{i}</text>
-          </g>
-        );
-      })}
+        {/* Particles */}
+        {particles.map(p => {
+          const s = toScreen(p);
+          const isHighlight = currentStep.highlightParticleId === p.id;
+          return (
+            <g
+              key={`p${p.id}`}
+              data-entity="particle"
+              onPointerDown={handlePointerDown('particle', p.id)}
+              onDoubleClick={handleEntityDoubleClick({ kind: 'particle', id: p.id })}
+              onPointerEnter={() => setHoveredParticleId(p.id)}
+              onPointerLeave={() => setHoveredParticleId(null)}
+              className={entityCursor}
+            >
+              <circle cx={s.x} cy={s.y} r={8} fill={isHighlight ? '#4ade80' : '#22c55e'} stroke={isHighlight ? 'white' : 'none'} strokeWidth={2} />
+              {(showParticleLabels || isHighlight) && (
+                <text x={s.x} y={s.y + 20} fill="#86efac" textAnchor="middle" fontSize="10" fontWeight="bold">P{p.id}</text>
+              )}
+            </g>
+          );
+        })}
+
+        {renderDraftCrack()}
+        {renderPairTooltip()}
+
+        {/* Legend for exported frames only (see frameExport.ts) */}
+        <g data-export="legend" display="none">
+          {legend.map((entry, i) => (
+            <g key={entry.key} transform={`translate(0, ${i * 14})`}>
+              <line x1={0} y1={5} x2={24} y2={5} stroke={entry.color} strokeWidth={2} strokeDasharray={entry.dash} />
+              <text x={30} y={9} fill="#cbd5e1" fontSize="10">{entry.label}</text>
+            </g>
+          ))}
+        </g>
+
+      </svg>
+
+      {/* Field legend and color mode */}
+      <div className="absolute bottom-2 left-2 max-w-[60%] bg-slate-900/85 border border-slate-700 rounded p-2 text-[10px] font-mono text-slate-300">
+        <select
+          value={colorByCrack ?? ''}
+          onChange={(e) => setColorByCrack(e.target.value === '' ? null : parseInt(e.target.value))}
+          className="w-full mb-1 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+        >
+          <option value="">Color by combined field</option>
+          {cracks.map((c, idx) => <option key={c.id} value={idx}>Color by {crackLabel(idx)}</option>)}
+        </select>
+        <ul className="space-y-0.5 max-h-24 overflow-y-auto">
+          {legend.map(entry => (
+            <li key={entry.key} className="flex items-center gap-2">
+              <svg width="24" height="6" className="shrink-0">
+                <line x1={0} y1={3} x2={24} y2={3} stroke={entry.color} strokeWidth={2} strokeDasharray={entry.dash} />
+              </svg>
+              <span className="truncate">{entry.label}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
 
-    </svg>
+      <div className="absolute bottom-2 right-2 flex flex-col gap-1">
+        <button onClick={() => zoomCenter(1.25)} title="Zoom in" className="p-1.5 rounded bg-slate-800/90 border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700">
+          <ZoomIn size={14} />
+        </button>
+        <button onClick={() => zoomCenter(0.8)} title="Zoom out" className="p-1.5 rounded bg-slate-800/90 border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700">
+          <ZoomOut size={14} />
+        </button>
+        <button onClick={fitToScene} title="Fit to scene" className="p-1.5 rounded bg-slate-800/90 border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700">
+          <Maximize size={14} />
+        </button>
+      </div>
+    </div>
   );
 };
 
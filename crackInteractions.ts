@@ -0,0 +1,69 @@
+import { Point, Node, Crack, GridConfig, CrackIntersection } from './types';
+import { supportIndices, nodeLatticeIndex } from './grid';
+
+// Intersection point of segments a1-a2 and b1-b2, or null when they don't meet
+// (parallel segments are treated as not meeting)
+const segmentIntersection = (a1: Point, a2: Point, b1: Point, b2: Point): Point | null => {
+  const dax = a2.x - a1.x;
+  const day = a2.y - a1.y;
+  const dbx = b2.x - b1.x;
+  const dby = b2.y - b1.y;
+  const denom = dax * dby - day * dbx;
+  if (denom === 0) return null;
+
+  const t = ((b1.x - a1.x) * dby - (b1.y - a1.y) * dbx) / denom;
+  const u = ((b1.x - a1.x) * day - (b1.y - a1.y) * dax) / denom;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return { x: a1.x + t * dax, y: a1.y + t * day };
+};
+
+// Nodes whose shape function can be non-zero at p: the ones a particle at p would connect to
+const supportingNodeIds = (nodes: Node[], grid: GridConfig, p: Point): number[] => {
+  const lattice = new Set(supportIndices(grid, p).map(({ i, j }) => `${i},${j}`));
+  return nodes
+    .filter(n => {
+      const { i, j } = nodeLatticeIndex(grid, n);
+      return lattice.has(`${i},${j}`);
+    })
+    .map(n => n.id);
+};
+
+// Every point where two different cracks meet, with the nodes it lies under.
+// Points outside the grid support no node and are dropped. A crack passing through
+// a vertex of the other meets both segments there, which counts as one point.
+export const findCrackIntersections = (nodes: Node[], cracks: Crack[], grid: GridConfig): CrackIntersection[] => {
+  const found: CrackIntersection[] = [];
+  const samePoint = grid.spacing * 1e-9;
+  for (let a = 0; a < cracks.length; a++) {
+    for (let b = a + 1; b < cracks.length; b++) {
+      const pa = cracks[a].points;
+      const pb = cracks[b].points;
+      const pairPoints: Point[] = [];
+      for (let i = 0; i < pa.length - 1; i++) {
+        for (let j = 0; j < pb.length - 1; j++) {
+          const point = segmentIntersection(pa[i], pa[i + 1], pb[j], pb[j + 1]);
+          if (!point) continue;
+          if (pairPoints.some(q => Math.hypot(q.x - point.x, q.y - point.y) <= samePoint)) continue;
+          pairPoints.push(point);
+          const nodeIds = supportingNodeIds(nodes, grid, point);
+          if (nodeIds.length > 0) found.push({ crackIds: [cracks[a].id, cracks[b].id], point, nodeIds });
+        }
+      }
+    }
+  }
+  return found;
+};
+
+// Number of cracks that split at least one of each node's pairs (per-crack field other than 1)
+export const crackCountsByNode = (crackFields: Record<string, number[]>): Map<number, number> => {
+  const affected = new Map<number, Set<number>>();
+  Object.entries(crackFields).forEach(([key, fields]) => {
+    const nodeId = Number(key.split('-')[0]);
+    fields.forEach((f, crackIdx) => {
+      if (f === 1) return;
+      if (!affected.has(nodeId)) affected.set(nodeId, new Set());
+      affected.get(nodeId)!.add(crackIdx);
+    });
+  });
+  return new Map(Array.from(affected, ([nodeId, set]) => [nodeId, set.size]));
+};
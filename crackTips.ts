@@ -0,0 +1,60 @@
+import { Point, Node, Crack, GridConfig } from './types';
+import { cellOf, latticePosition, nodeLatticeIndex, LatticeIndex } from './grid';
+
+export interface CrackTip {
+  crackId: number;
+  end: 'start' | 'end';
+  point: Point;
+  cell: LatticeIndex;
+  nodeIds: number[]; // Nodes at the corners of the tip cell
+  // Continuation of the crack from the tip to the tip cell's edge, ordered like the
+  // crack itself so "above"/"below" keep their meaning. Null if the tip sits on the edge.
+  extension: [Point, Point] | null;
+}
+
+// Where a ray from `origin` along `dir` leaves the cell
+const exitPoint = (grid: GridConfig, cell: LatticeIndex, origin: Point, dir: Point): Point | null => {
+  const min = latticePosition(grid, cell.i, cell.j);
+  const max = latticePosition(grid, cell.i + 1, cell.j + 1);
+
+  let t = Infinity;
+  if (dir.x > 0) t = Math.min(t, (max.x - origin.x) / dir.x);
+  if (dir.x < 0) t = Math.min(t, (min.x - origin.x) / dir.x);
+  if (dir.y > 0) t = Math.min(t, (max.y - origin.y) / dir.y);
+  if (dir.y < 0) t = Math.min(t, (min.y - origin.y) / dir.y);
+  if (!Number.isFinite(t) || t <= 0) return null;
+
+  return { x: origin.x + dir.x * t, y: origin.y + dir.y * t };
+};
+
+// Crack ends that lie inside the background grid. Ends outside the grid cut
+// through the whole domain and need no tip handling.
+export const findCrackTips = (crack: Crack, nodes: Node[], grid: GridConfig): CrackTip[] => {
+  const pts = crack.points;
+  if (pts.length < 2) return [];
+
+  const ends: { end: CrackTip['end'], point: Point, prev: Point }[] = [
+    { end: 'start', point: pts[0], prev: pts[1] },
+    { end: 'end', point: pts[pts.length - 1], prev: pts[pts.length - 2] }
+  ];
+
+  const tips: CrackTip[] = [];
+  ends.forEach(({ end, point, prev }) => {
+    const cell = cellOf(grid, point);
+    if (!cell) return;
+
+    const nodeIds = nodes
+      .filter(n => {
+        const { i, j } = nodeLatticeIndex(grid, n);
+        return (i === cell.i || i === cell.i + 1) && (j === cell.j || j === cell.j + 1);
+      })
+      .map(n => n.id);
+
+    const edge = exitPoint(grid, cell, point, { x: point.x - prev.x, y: point.y - prev.y });
+    const extension: [Point, Point] | null = !edge ? null : end === 'start' ? [edge, point] : [point, edge];
+
+    tips.push({ crackId: crack.id, end, point, cell, nodeIds, extension });
+  });
+
+  return tips;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { triangleArea, checkCrossing, generateSimulationTrace } from './utils';
+import { finalFieldState } from './trace';
+import { findCrackIntersections } from './crackInteractions';
+import { Crack, GridConfig, Node, Particle } from './types';
+
+describe('triangleArea', () => {
+  it('is twice the signed area, positive counter-clockwise', () => {
+    expect(triangleArea({ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 })).toBe(1);
+    expect(triangleArea({ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 0 })).toBe(-1);
+    expect(triangleArea({ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 })).toBe(0);
+  });
+});
+
+describe('checkCrossing', () => {
+  // Crack along the x axis, left to right: "above" is y > 0
+  const start = { x: 0, y: 0 };
+  const end = { x: 10, y: 0 };
+  const up = { x: 5, y: 2 };
+  const down = { x: 5, y: -2 };
+
+  it('reads [-,+,+,-] as crossed above (field 2)', () => {
+    const check = checkCrossing(up, down, start, end);
+    expect(check.signs).toEqual([-1, 1, 1, -1]);
+    expect(check.result).toBe(2);
+    expect(check.degeneracy).toBeUndefined();
+  });
+
+  it('reads [+,-,-,+] as crossed below (field 3)', () => {
+    const check = checkCrossing(down, up, start, end);
+    expect(check.signs).toEqual([1, -1, -1, 1]);
+    expect(check.result).toBe(3);
+  });
+
+  it('swaps the result when the crack is reversed', () => {
+    expect(checkCrossing(up, down, end, start).result).toBe(3);
+    expect(checkCrossing(down, up, end, start).result).toBe(2);
+  });
+
+  it('finds no crossing when both ends are on one side', () => {
+    const check = checkCrossing(up, { x: 6, y: 3 }, start, end);
+    expect(check.result).toBe(0);
+    expect(check.degeneracy).toBeUndefined();
+  });
+
+  it('finds no crossing when the segment stops short of the pair line', () => {
+    expect(checkCrossing(up, down, { x: 6, y: 0 }, end).result).toBe(0);
+  });
+
+  it('counts a particle on the crack as the + side', () => {
+    const check = checkCrossing({ x: 5, y: 0 }, down, start, end);
+    expect(check.degeneracy).toBe('touching');
+    expect(check.result).toBe(2);
+  });
+
+  it('reports a collinear overlap without a crossing', () => {
+    const check = checkCrossing({ x: 2, y: 0 }, { x: 8, y: 0 }, start, end);
+    expect(check.degeneracy).toBe('collinear');
+    expect(check.result).toBe(0);
+  });
+
+  it('counts a vertex on the pair line once, as the + side', () => {
+    const before = checkCrossing(up, down, start, { x: 5, y: 0 });
+    const after = checkCrossing(up, down, { x: 5, y: 0 }, end);
+    expect(before.degeneracy).toBe('endpoint-on-line');
+    expect(after.degeneracy).toBe('endpoint-on-line');
+    expect([before.result, after.result].filter(r => r !== 0)).toEqual([2]);
+  });
+
+  it('treats points within the tolerance as on the line', () => {
+    const near = { x: 5, y: 1e-12 };
+    expect(checkCrossing(near, down, start, end).degeneracy).toBe('touching');
+    expect(checkCrossing(near, down, start, end, 0).degeneracy).toBeUndefined();
+  });
+});
+
+describe('cancellation', () => {
+  // One 10 x 10 cell; the pair of interest is node 0 at the origin and the particle at its center
+  const nodes: Node[] = [
+    { id: 0, x: 0, y: 0 }, { id: 1, x: 10, y: 0 },
+    { id: 2, x: 0, y: 10 }, { id: 3, x: 10, y: 10 }
+  ];
+  const particles: Particle[] = [{ id: 0, x: 5, y: 5 }];
+  const grid: GridConfig = { origin: { x: 0, y: 0 }, spacing: 10, cols: 1, rows: 1, support: 'linear' };
+  const run = (cracks: Crack[]) => generateSimulationTrace(nodes, particles, cracks, grid);
+
+  it('cancels one crossing above against one below', () => {
+    // Crosses the diagonal y = x twice, in opposite directions
+    const trace = run([{ id: 0, points: [{ x: 0, y: 3 }, { x: 3, y: 0 }, { x: 3.5, y: 5 }] }]);
+    expect(trace.stats.cancelledPairs).toBeGreaterThan(0);
+    expect(finalFieldState(trace).crackFields['0-0']).toEqual([1]);
+  });
+
+  it('keeps the odd remainder after cancelling', () => {
+    const trace = run([{ id: 0, points: [{ x: 0, y: 3 }, { x: 3, y: 0 }, { x: 3.5, y: 5 }, { x: 4.5, y: 0 }] }]);
+    // Two crossings above, one below
+    expect(trace.stats.cancelledPairs).toBeGreaterThan(0);
+    expect(finalFieldState(trace).crackFields['0-0']).toEqual([2]);
+  });
+});
+
+describe('findCrackIntersections', () => {
+  const nodes: Node[] = [
+    { id: 0, x: 0, y: 0 }, { id: 1, x: 10, y: 0 },
+    { id: 2, x: 0, y: 10 }, { id: 3, x: 10, y: 10 }
+  ];
+  const grid: GridConfig = { origin: { x: 0, y: 0 }, spacing: 10, cols: 1, rows: 1, support: 'linear' };
+
+  it('reports a crack through a vertex of the other once', () => {
+    const cracks: Crack[] = [
+      { id: 0, points: [{ x: 0, y: 5 }, { x: 5, y: 5 }, { x: 10, y: 5 }] },
+      { id: 1, points: [{ x: 5, y: 0 }, { x: 5, y: 5 }, { x: 5, y: 10 }] }
+    ];
+    const found = findCrackIntersections(nodes, cracks, grid);
+    expect(found).toHaveLength(1);
+    expect(found[0].point).toEqual({ x: 5, y: 5 });
+  });
+});
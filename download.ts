@@ -0,0 +1,15 @@
+// Trigger a browser download for generated content
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (text: string, filename: string, type = 'application/json') => {
+  downloadBlob(new Blob([text], { type }), filename);
+};
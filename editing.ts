@@ -0,0 +1,62 @@
+import { Point, Crack, SimulationState } from './types';
+
+export type EditTool = 'select' | 'node' | 'particle' | 'crack' | 'delete' | 'reverse';
+
+// One past the largest id in use, so new entities never collide with existing keys
+// (ids freed by deletions are not reused)
+export const nextId = (items: { id: number }[]): number =>
+  items.reduce((max, item) => Math.max(max, item.id), -1) + 1;
+
+export const removeById = <T extends { id: number }>(items: T[], id: number): T[] =>
+  items.filter(item => item.id !== id);
+
+// Remove one vertex from a crack polyline. A crack needs at least two points,
+// so removing a vertex from a single-segment crack deletes the whole crack.
+export const removeCrackPoint = (cracks: Crack[], crackId: number, pointIdx: number): Crack[] => {
+  const crack = cracks.find(c => c.id === crackId);
+  if (!crack) return cracks;
+  if (crack.points.length <= 2) return removeById(cracks, crackId);
+
+  return cracks.map(c => c.id !== crackId ? c : {
+    ...c,
+    points: c.points.filter((_, i) => i !== pointIdx)
+  });
+};
+
+// Reverse the point order, which swaps the crack's "above" (field 2) and "below" (field 3) sides
+export const reverseCrack = (cracks: Crack[], crackId: number): Crack[] =>
+  cracks.map(c => c.id !== crackId ? c : { ...c, points: [...c.points].reverse() });
+
+export const addCrack = (cracks: Crack[], points: Point[]): Crack[] => {
+  if (points.length < 2) return cracks;
+  return [...cracks, { id: nextId(cracks), points }];
+};
+
+export type EntityKind = 'node' | 'particle' | 'crack';
+
+// New id of an entity after an edit, or undefined if the edit deleted it
+export type IdRemap = (kind: EntityKind, id: number) => number | undefined;
+
+// Compact ids to 0..n-1 in current order. Ids are the keys of the field matrix
+// ("nodeId-particleId") and the per-crack digit order, so all entity lists are
+// renumbered together and nothing keeps a stale reference.
+export const renumberScene = (scene: SimulationState): SimulationState => ({
+  ...scene,
+  nodes: scene.nodes.map((n, i) => ({ ...n, id: i })),
+  particles: scene.particles.map((p, i) => ({ ...p, id: i })),
+  cracks: scene.cracks.map((c, i) => ({ ...c, id: i }))
+});
+
+// The old-to-new ids of renumberScene, for state outside the scene that refers to entities
+export const renumberIds = (scene: SimulationState): IdRemap => {
+  const maps: Record<EntityKind, Map<number, number>> = {
+    node: new Map(scene.nodes.map((n, i) => [n.id, i])),
+    particle: new Map(scene.particles.map((p, i) => [p.id, i])),
+    crack: new Map(scene.cracks.map((c, i) => [c.id, i]))
+  };
+  return (kind, id) => maps[kind].get(id);
+};
+
+// Every id stays as it is except the deleted entity's
+export const deletedId = (deletedKind: EntityKind, deleted: number): IdRemap =>
+  (kind, id) => kind === deletedKind && id === deleted ? undefined : id;
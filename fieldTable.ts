@@ -0,0 +1,66 @@
+import { FieldState, SimulationStep } from './types';
+
+// One connected node-particle pair as shown in the field matrix panel
+export interface PairRow {
+  key: string;
+  nodeId: number;
+  particleId: number;
+  combined: number;
+  crackFields: number[];
+  combinedChanged: boolean; // Compared to the previous step
+  crackChanged: boolean[];
+}
+
+export type PairSortKey = 'node' | 'particle' | 'combined';
+
+export interface PairSort {
+  key: PairSortKey;
+  descending: boolean;
+}
+
+export interface PairFilter {
+  nodeId?: number;
+  particleId?: number;
+  field?: number; // Keep pairs where any crack sees this field
+  changedOnly?: boolean;
+}
+
+const parsePairKey = (key: string) => {
+  const [nodeId, particleId] = key.split('-').map(Number);
+  return { nodeId, particleId };
+};
+
+// `fields` is the state after `step`, so the step's own changes are the diff to the previous step.
+// Without a step (result-only runs, whose one final step holds every change) nothing is marked.
+export const buildPairRows = (fields: FieldState, step: SimulationStep | null): PairRow[] => {
+  const changed = new Set(step?.fieldChanges?.map(change => `${change.key}/${change.crackIndex}`));
+  return Object.entries(fields.crackFields).map(([key, crackFields]) => {
+    const crackChanged = crackFields.map((_, idx) => changed.has(`${key}/${idx}`));
+    return {
+      key,
+      ...parsePairKey(key),
+      combined: fields.combined[key],
+      crackFields,
+      combinedChanged: crackChanged.some(Boolean),
+      crackChanged
+    };
+  });
+};
+
+export const filterPairRows = (rows: PairRow[], filter: PairFilter): PairRow[] =>
+  rows.filter(row =>
+    (filter.nodeId === undefined || row.nodeId === filter.nodeId) &&
+    (filter.particleId === undefined || row.particleId === filter.particleId) &&
+    (filter.field === undefined || row.crackFields.includes(filter.field)) &&
+    (!filter.changedOnly || row.combinedChanged || row.crackChanged.some(Boolean))
+  );
+
+// Sort by the chosen column, breaking ties by node then particle id
+export const sortPairRows = (rows: PairRow[], sort: PairSort): PairRow[] => {
+  const primary = (row: PairRow) =>
+    sort.key === 'node' ? row.nodeId : sort.key === 'particle' ? row.particleId : row.combined;
+  const sign = sort.descending ? -1 : 1;
+  return [...rows].sort((a, b) =>
+    sign * (primary(a) - primary(b)) || a.nodeId - b.nodeId || a.particleId - b.particleId
+  );
+};
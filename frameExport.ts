@@ -0,0 +1,150 @@
+import { createZip, ZipEntry } from './zip';
+
+export type FrameFormat = 'svg' | 'png';
+
+export interface FrameExportOptions {
+  format: FrameFormat;
+  pngWidth: number; // Pixels; the height follows the frame's aspect ratio
+  legend: boolean;
+  caption: boolean; // The step description under the canvas
+}
+
+export const DEFAULT_FRAME_EXPORT: FrameExportOptions = {
+  format: 'png',
+  pngWidth: 1800,
+  legend: true,
+  caption: true
+};
+
+// Every frame is held in memory until the zip is written, so sequences are capped well
+// below the zip format's own limits
+export const MAX_SEQUENCE_FRAMES = 2000;
+
+export interface FrameSvg {
+  text: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const BACKGROUND = '#0f172a'; // The canvas' slate-900
+const CAPTION_LINE = 15;
+const LEGEND_ROW = 14;
+
+// Greedy word wrap; the caption font is about 6px per character
+const wrap = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  text.split(/\s+/).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxChars) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  });
+  return lines;
+};
+
+// Standalone copy of the canvas with its own background, the caption below it and the
+// canvas' hidden export legend (a <g data-export="legend">) shown or dropped
+export const buildFrameSvg = (svg: SVGSVGElement, options: FrameExportOptions, caption: string): FrameSvg => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const [, , width, canvasHeight] = (svg.getAttribute('viewBox') ?? '0 0 600 500').split(/\s+/).map(Number);
+  let height = canvasHeight;
+
+  if (options.caption && caption) {
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('fill', '#e2e8f0');
+    text.setAttribute('font-size', '11');
+    wrap(caption, Math.floor((width - 16) / 6)).forEach((line, i) => {
+      const span = document.createElementNS(SVG_NS, 'tspan');
+      span.setAttribute('x', '8');
+      span.setAttribute('y', String(height + 16 + i * CAPTION_LINE));
+      span.textContent = line;
+      text.appendChild(span);
+    });
+    clone.appendChild(text);
+    height += 10 + text.childElementCount * CAPTION_LINE;
+  }
+
+  const legend = clone.querySelector('[data-export="legend"]');
+  if (legend && options.legend && legend.childElementCount > 0) {
+    legend.removeAttribute('display');
+    legend.setAttribute('transform', `translate(8, ${height + 8})`);
+    clone.appendChild(legend); // Drawn last, after the caption
+    height += 12 + legend.childElementCount * LEGEND_ROW;
+  } else {
+    legend?.remove();
+  }
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  clone.removeAttribute('class');
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('font-family', 'ui-sans-serif, system-ui, sans-serif');
+
+  return {
+    text: '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(clone),
+    width,
+    height
+  };
+};
+
+export const svgToPng = async (frame: FrameSvg, pixelWidth: number): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([frame.text], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The frame could not be rendered as an image.'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(pixelWidth);
+    canvas.height = Math.round(pixelWidth * frame.height / frame.width);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed.')), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const exportFrame = async (svg: SVGSVGElement, options: FrameExportOptions, caption: string): Promise<Blob> => {
+  const frame = buildFrameSvg(svg, options, caption);
+  return options.format === 'svg'
+    ? new Blob([frame.text], { type: 'image/svg+xml' })
+    : svgToPng(frame, options.pngWidth);
+};
+
+// frame-0001.png, ...: consecutive numbers so tools like ffmpeg can pick the sequence up
+export const frameFileName = (position: number, count: number, format: FrameFormat): string =>
+  `frame-${String(position + 1).padStart(Math.max(4, String(count).length), '0')}.${format}`;
+
+// Renders each step through `showStep`, which must update the canvas synchronously and
+// return it, and zips the frames in order
+export const exportFrameSequence = async (
+  stepIndices: number[],
+  showStep: (index: number) => SVGSVGElement,
+  caption: (index: number) => string,
+  options: FrameExportOptions,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  if (stepIndices.length > MAX_SEQUENCE_FRAMES) {
+    throw new Error(`At most ${MAX_SEQUENCE_FRAMES} frames per sequence, got ${stepIndices.length}.`);
+  }
+  const entries: ZipEntry[] = [];
+  for (let k = 0; k < stepIndices.length; k++) {
+    const svg = showStep(stepIndices[k]);
+    const blob = await exportFrame(svg, options, caption(stepIndices[k]));
+    entries.push({ name: frameFileName(k, stepIndices.length, options.format), data: new Uint8Array(await blob.arrayBuffer()) });
+    onProgress?.((k + 1) / stepIndices.length);
+  }
+  return createZip(entries);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { generateSimulationTrace, presets, PresetKey } from './utils';
+import { finalFieldState } from './trace';
+import { generateScene, DEFAULT_GENERATOR_OPTIONS, SceneGeneratorOptions } from './sceneGenerator';
+import { SimulationState, SimulationStep } from './types';
+import { crossingResultOf, isCrossingCheck, normalizationActionOf } from './steps';
+
+// Golden snapshots of the algorithm's output. A change in any of them is a change in
+// behavior: review the diff, and only then update with `npx vitest run -u`.
+
+const run = (scene: SimulationState) =>
+  generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid);
+
+// One line per step: what it says and decides, and the field assignments it makes
+const stepLine = (step: SimulationStep): string => {
+  const parts = [`${step.stepId}: ${step.description}`];
+  const result = crossingResultOf(step);
+  const action = normalizationActionOf(step);
+  if (result !== undefined) parts.push(`result=${result}`);
+  if (isCrossingCheck(step) && step.degeneracy) parts.push(`degenerate=${step.degeneracy}`);
+  if (action) parts.push(`normalize=${action}`);
+  step.fieldChanges?.forEach(c => parts.push(`${c.key}[${c.crackIndex}] ${c.from}->${c.to}`));
+  return parts.join(' | ');
+};
+
+describe('presets', () => {
+  (['case1', 'case2', 'case3'] as PresetKey[]).forEach(key => {
+    describe(key, () => {
+      const trace = run(presets[key]);
+
+      it('final fields', () => {
+        expect(finalFieldState(trace).crackFields).toMatchSnapshot();
+      });
+
+      it('step trace', () => {
+        expect(trace.steps.map(stepLine)).toMatchSnapshot();
+      });
+
+      it('run stats', () => {
+        expect(trace.stats).toMatchSnapshot();
+      });
+    });
+  });
+});
+
+describe('generated scenes', () => {
+  const scenes: [string, Partial<SceneGeneratorOptions>][] = [
+    ['zigzag', { seed: 1 }],
+    ['kinked, jittered', { crackPattern: 'kinked', layout: 'jittered', seed: 2 }],
+    ['random walk x2', { crackPattern: 'random-walk', crackCount: 2, segmentsPerCrack: 8, seed: 3 }],
+    ['crossing x3, 3x3 particles', { crackPattern: 'crossing', crackCount: 3, particlesPerSide: 3, seed: 4 }]
+  ];
+
+  scenes.forEach(([name, overrides]) => {
+    it(name, () => {
+      const trace = run(generateScene({ ...DEFAULT_GENERATOR_OPTIONS, ...overrides }));
+      expect({
+        steps: trace.steps.length,
+        fields: finalFieldState(trace).combined,
+        normalizations: trace.stats.normalizations,
+        warnings: trace.stats.warnings
+      }).toMatchSnapshot();
+    });
+  });
+});
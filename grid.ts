@@ -0,0 +1,152 @@
+import { Point, Node, Particle, GridConfig } from './types';
+
+// GIMP particle half-width as a fraction of the cell size (2x2 particles per cell)
+export const GIMP_HALF_WIDTH = 0.25;
+
+export interface LatticeIndex {
+  i: number;
+  j: number;
+}
+
+export interface Connectivity {
+  particleToNodes: Record<number, number[]>;
+  nodeToParticles: Record<number, number[]>;
+}
+
+const latticeKey = (i: number, j: number) => `${i},${j}`;
+
+export const latticePosition = (grid: GridConfig, i: number, j: number): Point => ({
+  x: grid.origin.x + i * grid.spacing,
+  y: grid.origin.y + j * grid.spacing
+});
+
+// Cell that contains p, or null when p lies outside the grid extent
+export const cellOf = (grid: GridConfig, p: Point): LatticeIndex | null => {
+  const gx = (p.x - grid.origin.x) / grid.spacing;
+  const gy = (p.y - grid.origin.y) / grid.spacing;
+  if (gx < 0 || gy < 0 || gx > grid.cols || gy > grid.rows) return null;
+
+  // A particle sitting on the far boundary belongs to the last cell
+  return {
+    i: Math.min(Math.floor(gx), grid.cols - 1),
+    j: Math.min(Math.floor(gy), grid.rows - 1)
+  };
+};
+
+// Lattice index range [min, max] along one axis for a particle at grid coordinate g
+const supportRange = (grid: GridConfig, g: number, cell: number): [number, number] => {
+  switch (grid.support) {
+    case 'linear':
+      return [cell, cell + 1];
+    case 'bspline': {
+      // Quadratic B-spline: 3 nodes starting one below the nearest node
+      const base = Math.floor(g - 0.5);
+      return [base, base + 2];
+    }
+    case 'gimp':
+      // Node i contributes while |g - i| < 1 + lp
+      return [
+        Math.floor(g - 1 - GIMP_HALF_WIDTH) + 1,
+        Math.ceil(g + 1 + GIMP_HALF_WIDTH) - 1
+      ];
+  }
+};
+
+// Lattice indices of the nodes whose shape functions can be non-zero at p.
+// Indices falling outside the grid are dropped.
+export const supportIndices = (grid: GridConfig, p: Point): LatticeIndex[] => {
+  const cell = cellOf(grid, p);
+  if (!cell) return [];
+
+  const gx = (p.x - grid.origin.x) / grid.spacing;
+  const gy = (p.y - grid.origin.y) / grid.spacing;
+  const [iMin, iMax] = supportRange(grid, gx, cell.i);
+  const [jMin, jMax] = supportRange(grid, gy, cell.j);
+
+  const indices: LatticeIndex[] = [];
+  for (let j = Math.max(0, jMin); j <= Math.min(grid.rows, jMax); j++) {
+    for (let i = Math.max(0, iMin); i <= Math.min(grid.cols, iMax); i++) {
+      indices.push({ i, j });
+    }
+  }
+  return indices;
+};
+
+// World-space bounding box of the support nodes, used to draw the support region
+export const supportBounds = (grid: GridConfig, p: Point): { min: Point, max: Point } | null => {
+  const indices = supportIndices(grid, p);
+  if (indices.length === 0) return null;
+
+  const is = indices.map(idx => idx.i);
+  const js = indices.map(idx => idx.j);
+  return {
+    min: latticePosition(grid, Math.min(...is), Math.min(...js)),
+    max: latticePosition(grid, Math.max(...is), Math.max(...js))
+  };
+};
+
+// Snap a (possibly dragged) node back onto the lattice point it represents
+export const nodeLatticeIndex = (grid: GridConfig, n: Point): LatticeIndex => ({
+  i: Math.round((n.x - grid.origin.x) / grid.spacing),
+  j: Math.round((n.y - grid.origin.y) / grid.spacing)
+});
+
+export const computeConnectivity = (
+  nodes: Node[],
+  particles: Particle[],
+  grid: GridConfig
+): Connectivity => {
+  const particleToNodes: Record<number, number[]> = {};
+  const nodeToParticles: Record<number, number[]> = {};
+
+  const nodesByLattice = new Map<string, number[]>();
+  nodes.forEach(n => {
+    nodeToParticles[n.id] = [];
+    const { i, j } = nodeLatticeIndex(grid, n);
+    const key = latticeKey(i, j);
+    if (!nodesByLattice.has(key)) nodesByLattice.set(key, []);
+    nodesByLattice.get(key)!.push(n.id);
+  });
+
+  particles.forEach(p => {
+    const connected: number[] = [];
+    supportIndices(grid, p).forEach(({ i, j }) => {
+      nodesByLattice.get(latticeKey(i, j))?.forEach(nodeId => connected.push(nodeId));
+    });
+
+    particleToNodes[p.id] = connected;
+    connected.forEach(nodeId => nodeToParticles[nodeId].push(p.id));
+  });
+
+  return { particleToNodes, nodeToParticles };
+};
+
+// Best-guess grid for scenes that do not carry one: the node bounding box with
+// the smallest non-zero gap between node coordinates as cell size.
+export const inferGrid = (nodes: Point[]): GridConfig => {
+  if (nodes.length === 0) {
+    return { origin: { x: 0, y: 0 }, spacing: 1, cols: 1, rows: 1, support: 'linear' };
+  }
+
+  const xs = nodes.map(n => n.x);
+  const ys = nodes.map(n => n.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  const smallestGap = (values: number[]) => {
+    const sorted = Array.from(new Set(values)).sort((a, b) => a - b);
+    let gap = Infinity;
+    for (let i = 1; i < sorted.length; i++) gap = Math.min(gap, sorted[i] - sorted[i - 1]);
+    return gap;
+  };
+  let spacing = Math.min(smallestGap(xs), smallestGap(ys));
+  if (!Number.isFinite(spacing)) spacing = 1;
+
+  return {
+    origin: { x: minX, y: minY },
+    spacing,
+    cols: Math.max(1, Math.round((Math.max(...xs) - minX) / spacing)),
+    rows: Math.max(1, Math.round((Math.max(...ys) - minY) / spacing)),
+    support: 'linear'
+  };
+};
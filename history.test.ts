@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { presets } from './utils';
+import { SimulationState } from './types';
+import { MAX_HISTORY, createHistory, currentScene, pushHistory, sealHistory, undo, redo, jumpTo, canUndo, canRedo, gridEditKey } from './history';
+
+const moveNode = (scene: SimulationState, x: number): SimulationState => ({
+  ...scene,
+  nodes: scene.nodes.map(n => n.id === 0 ? { ...n, x } : n)
+});
+
+describe('scene history', () => {
+  const start = createHistory(presets.case1, 'Load Case 1');
+
+  it('undoes and redoes edits in order', () => {
+    let history = pushHistory(start, presets.case2, 'Load Case 2');
+    history = pushHistory(history, presets.case3, 'Load Case 3');
+    expect(canRedo(history)).toBe(false);
+
+    history = undo(history);
+    expect(currentScene(history)).toBe(presets.case2);
+    history = undo(undo(history));
+    expect(currentScene(history)).toBe(presets.case1);
+    expect(canUndo(history)).toBe(false);
+
+    history = redo(history);
+    expect(currentScene(history)).toBe(presets.case2);
+    expect(canRedo(history)).toBe(true);
+  });
+
+  it('drops the undone entries on the next edit', () => {
+    let history = pushHistory(start, presets.case2, 'Load Case 2');
+    history = pushHistory(undo(history), presets.case3, 'Load Case 3');
+    expect(history.entries.map(e => e.label)).toEqual(['Load Case 1', 'Load Case 3']);
+  });
+
+  it('coalesces one drag into one entry and starts a new one after release', () => {
+    let history = start;
+    [3, 4, 5].forEach(x => { history = pushHistory(history, moveNode(currentScene(history), x), 'Move node 0', 'node-0'); });
+    expect(history.entries).toHaveLength(2);
+    expect(currentScene(history).nodes[0].x).toBe(5);
+
+    history = pushHistory(sealHistory(history), moveNode(currentScene(history), 6), 'Move node 0', 'node-0');
+    expect(history.entries).toHaveLength(3);
+    expect(currentScene(undo(history)).nodes[0].x).toBe(5);
+    expect(currentScene(undo(undo(history)))).toBe(presets.case1);
+  });
+
+  it('does not coalesce into an entry that was undone to and redone', () => {
+    let history = pushHistory(start, moveNode(presets.case1, 3), 'Edit grid', 'grid');
+    history = pushHistory(redo(undo(history)), moveNode(presets.case1, 4), 'Edit grid', 'grid');
+    expect(history.entries).toHaveLength(3);
+  });
+
+  it('coalesces grid edits per field, so one undo reverts one field', () => {
+    let history = start;
+    const editGrid = (change: Partial<SimulationState['grid']>) => {
+      const scene = currentScene(history);
+      const grid = { ...scene.grid, ...change };
+      history = pushHistory(history, { ...scene, grid }, 'Edit grid', gridEditKey(scene.grid, grid));
+    };
+    editGrid({ cols: 5 });
+    editGrid({ cols: 6 });
+    editGrid({ spacing: 2 });
+    editGrid({ spacing: 3 });
+    editGrid({ support: 'gimp' });
+    expect(history.entries).toHaveLength(4);
+
+    history = undo(history);
+    expect(currentScene(history).grid).toEqual({ ...presets.case1.grid, cols: 6, spacing: 3 });
+    history = undo(history);
+    expect(currentScene(history).grid).toEqual({ ...presets.case1.grid, cols: 6 });
+    expect(gridEditKey(presets.case1.grid, { ...presets.case1.grid, origin: { x: 1, y: presets.case1.grid.origin.y } })).toBe('grid:origin.x');
+  });
+
+  it('jumps to any entry and keeps at most MAX_HISTORY entries', () => {
+    let history = start;
+    for (let i = 0; i < MAX_HISTORY + 10; i++) history = pushHistory(history, moveNode(presets.case1, i), `Move ${i}`);
+    expect(history.entries).toHaveLength(MAX_HISTORY);
+    expect(history.entries[0].label).toBe('Move 10');
+
+    history = jumpTo(history, 5);
+    expect(currentScene(history).nodes[0].x).toBe(15);
+    expect(jumpTo(history, -3).index).toBe(0);
+  });
+});
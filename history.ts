@@ -0,0 +1,80 @@
+import { GridConfig, SimulationState } from './types';
+
+// Undo/redo history of the scene. entries[index] is the scene on screen; the entries
+// after it can be redone until the next edit drops them.
+export interface HistoryEntry {
+  label: string;
+  scene: SimulationState;
+  coalesceKey?: string; // Further edits with the same key replace this entry instead of adding one
+}
+
+export interface SceneHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+// Oldest entries are dropped beyond this
+export const MAX_HISTORY = 100;
+
+export const createHistory = (scene: SimulationState, label: string): SceneHistory => ({
+  entries: [{ label, scene }],
+  index: 0
+});
+
+export const currentScene = (history: SceneHistory): SimulationState => history.entries[history.index].scene;
+
+// Record an edit. Consecutive edits with the same coalesceKey (e.g. every pointer move
+// of one drag) collapse into one entry, unless the user went back in between.
+export const pushHistory = (
+  history: SceneHistory,
+  scene: SimulationState,
+  label: string,
+  coalesceKey?: string
+): SceneHistory => {
+  const { entries, index } = history;
+  const top = entries[index];
+  if (coalesceKey !== undefined && index === entries.length - 1 && top.coalesceKey === coalesceKey) {
+    return { entries: [...entries.slice(0, index), { ...top, scene }], index };
+  }
+
+  const kept = [...entries.slice(0, index + 1), { label, scene, coalesceKey }].slice(-MAX_HISTORY);
+  return { entries: kept, index: kept.length - 1 };
+};
+
+const gridFields: Record<string, (grid: GridConfig) => unknown> = {
+  'origin.x': g => g.origin.x,
+  'origin.y': g => g.origin.y,
+  spacing: g => g.spacing,
+  cols: g => g.cols,
+  rows: g => g.rows,
+  support: g => g.support
+};
+
+// Coalesce key for a grid edit, one per field: stepping one input makes one entry,
+// moving on to another field starts the next
+export const gridEditKey = (prev: GridConfig, next: GridConfig): string =>
+  `grid:${Object.keys(gridFields).filter(field => gridFields[field](prev) !== gridFields[field](next)).join(',')}`;
+
+// Ends coalescing into the current entry, e.g. when a drag is released
+export const sealHistory = (history: SceneHistory): SceneHistory => {
+  const top = history.entries[history.index];
+  if (top.coalesceKey === undefined) return history;
+  const entries = [...history.entries];
+  entries[history.index] = { label: top.label, scene: top.scene };
+  return { ...history, entries };
+};
+
+export const canUndo = (history: SceneHistory): boolean => history.index > 0;
+export const canRedo = (history: SceneHistory): boolean => history.index < history.entries.length - 1;
+
+// Moving through the history closes any open coalescing, so the next drag starts a new entry
+export const jumpTo = (history: SceneHistory, index: number): SceneHistory => {
+  const target = Math.min(history.entries.length - 1, Math.max(0, index));
+  return {
+    entries: history.entries.map(e => e.coalesceKey === undefined ? e : { ...e, coalesceKey: undefined }),
+    index: target
+  };
+};
+
+export const undo = (history: SceneHistory): SceneHistory => jumpTo(history, history.index - 1);
+export const redo = (history: SceneHistory): SceneHistory => jumpTo(history, history.index + 1);
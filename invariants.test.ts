@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { generateSimulationTrace } from './utils';
+import { fieldStateAt, finalFieldState } from './trace';
+import { computeConnectivity } from './grid';
+import { reverseCrack } from './editing';
+import { generateScene, seededRandom, CrackPattern } from './sceneGenerator';
+import { SimulationState, SimulationTrace, SupportType } from './types';
+import { isCrossingCheck } from './steps';
+
+// Property checks over random generated scenes. Each case is reproducible from its seed.
+const CASES = 30;
+const patterns: CrackPattern[] = ['straight', 'kinked', 'zigzag', 'random-walk', 'crossing'];
+const supports: SupportType[] = ['linear', 'bspline', 'gimp'];
+
+const randomScene = (seed: number): SimulationState => {
+  const random = seededRandom(seed);
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const scene = generateScene({
+    cols: int(2, 5),
+    rows: int(2, 5),
+    spacing: 1,
+    particlesPerSide: int(1, 3),
+    particlesPerCell: int(1, 9),
+    layout: random() < 0.5 ? 'gauss' : 'jittered',
+    crackPattern: patterns[int(0, patterns.length - 1)],
+    crackCount: int(1, 3),
+    segmentsPerCrack: int(1, 8),
+    seed
+  });
+  return { ...scene, grid: { ...scene.grid, support: supports[int(0, supports.length - 1)] } };
+};
+
+const run = (scene: SimulationState, options = {}) =>
+  generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, options);
+
+const seeds = Array.from({ length: CASES }, (_, i) => i + 1);
+
+// Per-crack fields right before that crack's consistency check, i.e. before normalization
+const fieldsBeforeNormalization = (trace: SimulationTrace, scene: SimulationState, crackIdx: number) => {
+  const crackId = scene.cracks[crackIdx].id;
+  const index = trace.steps.findIndex(s => s.kind === 'consistencyPhase' && s.highlightCrackId === crackId);
+  const { crackFields } = fieldStateAt(trace, index);
+  return Object.fromEntries(Object.entries(crackFields).map(([key, fields]) => [key, fields[crackIdx]]));
+};
+
+// Pairs whose crossing checks hit a zero sign for this crack; the + side convention
+// makes them direction dependent
+const degeneratePairs = (trace: SimulationTrace, crackId: number) => new Set(
+  trace.steps
+    .filter(s => isCrossingCheck(s) && s.degeneracy && s.highlightCrackId === crackId)
+    .map(s => `${s.highlightNodeId}-${s.highlightParticleId}`)
+);
+
+describe.each(seeds)('random scene, seed %i', seed => {
+  const scene = randomScene(seed);
+  const trace = run(scene);
+  const final = finalFieldState(trace);
+
+  it('has one field in {1, 2, 3} per crack for every connected pair', () => {
+    const { particleToNodes } = computeConnectivity(scene.nodes, scene.particles, scene.grid);
+    const connected = scene.particles.flatMap(p => particleToNodes[p.id].map(n => `${n}-${p.id}`));
+    expect(Object.keys(final.crackFields).sort()).toEqual(connected.sort());
+
+    Object.values(final.crackFields).forEach(fields => {
+      expect(fields).toHaveLength(scene.cracks.length);
+      fields.forEach(f => expect([1, 2, 3]).toContain(f));
+    });
+    trace.steps.forEach(step => step.fieldChanges?.forEach(c => expect([1, 2, 3]).toContain(c.to)));
+  });
+
+  it('swaps fields 2 and 3 before normalization when a crack is reversed', () => {
+    scene.cracks.forEach((crack, crackIdx) => {
+      const reversed = { ...scene, cracks: reverseCrack(scene.cracks, crack.id) };
+      const reversedTrace = run(reversed);
+      const before = fieldsBeforeNormalization(trace, scene, crackIdx);
+      const after = fieldsBeforeNormalization(reversedTrace, reversed, crackIdx);
+      const skip = new Set([...degeneratePairs(trace, crack.id), ...degeneratePairs(reversedTrace, crack.id)]);
+
+      Object.entries(before).forEach(([key, field]) => {
+        if (skip.has(key)) return;
+        expect(after[key], `pair ${key}, crack ${crack.id}`).toBe(field === 1 ? 1 : 5 - field);
+      });
+    });
+  });
+
+  it('leaves no node seeing fields [1, 2] or [1, 3] after normalization', () => {
+    const { nodeToParticles } = computeConnectivity(scene.nodes, scene.particles, scene.grid);
+    scene.nodes.forEach(n => {
+      scene.cracks.forEach((_, crackIdx) => {
+        const seen = new Set(nodeToParticles[n.id].map(pid => final.crackFields[`${n.id}-${pid}`][crackIdx]));
+        const sorted = Array.from(seen).sort().join(',');
+        expect(['1,2', '1,3'], `node ${n.id}, crack ${crackIdx}`).not.toContain(sorted);
+      });
+    });
+  });
+
+  it('gives the same final fields with and without the spatial index', () => {
+    expect(finalFieldState(run(scene, { spatialIndex: false })).crackFields).toEqual(final.crackFields);
+  });
+
+  it('gives the same final fields in result-only and focused modes', () => {
+    expect(finalFieldState(run(scene, { mode: 'result' })).crackFields).toEqual(final.crackFields);
+    const focus = { kind: 'node' as const, id: scene.nodes[Math.floor(scene.nodes.length / 2)].id };
+    expect(finalFieldState(run(scene, { focus })).crackFields).toEqual(final.crackFields);
+  });
+
+  it('rebuilds every step from snapshots the same as a full replay', () => {
+    const replay: Record<string, number[]> = Object.fromEntries(trace.pairKeys.map(key => [key, scene.cracks.map(() => 1)]));
+    trace.steps.forEach((step, index) => {
+      step.fieldChanges?.forEach(c => { replay[c.key][c.crackIndex] = c.to; });
+      if (index % 7 === 0 || index === trace.steps.length - 1) {
+        expect(fieldStateAt(trace, index).crackFields).toEqual(replay);
+      }
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { generateSimulationTrace, presets } from './utils';
+import { finalFieldState } from './trace';
+import { buildFieldMatrix } from './report';
+import { parseReference, checkParity } from './parity';
+
+const scene = presets.case3;
+const trace = generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid);
+const final = finalFieldState(trace);
+
+const reference = (body: object) =>
+  parseReference(JSON.stringify({ format: 'mpm-fracture-reference', version: 1, ...body }));
+
+describe('parseReference', () => {
+  it('reads per-crack lists and combined values alike', () => {
+    expect(reference({ fields: { '0-0': [2, 1], '0-1': 7 } }).fields).toEqual({ '0-0': [2, 1], '0-1': [1, 2] });
+  });
+
+  it('drops unconnected matrix cells', () => {
+    const ref = reference({ matrix: { nodes: [0, 1], particles: [0], fields: [[5], [0]] } });
+    expect(ref.fields).toEqual({ '0-0': [2, 1] });
+  });
+
+  it('rejects bad keys, fields and formats with the offending path', () => {
+    expect(() => reference({ fields: { a: [1] } })).toThrow('fields.a');
+    expect(() => reference({ fields: { '0-0': [4] } })).toThrow('fields.0-0[0]');
+    expect(() => reference({})).toThrow('exactly one of');
+    expect(() => parseReference('{"format":"mpm-fracture-scene","version":1}')).toThrow('format');
+  });
+});
+
+describe('checkParity', () => {
+  it('finds nothing to report against its own output', () => {
+    const report = checkParity(scene, reference({ matrix: buildFieldMatrix(scene, final.combined) }));
+    expect(report.comparedPairs).toBe(trace.pairKeys.length);
+    expect(report.mismatches).toEqual([]);
+    expect(report.missing).toEqual([]);
+    expect(report.unexpected).toEqual([]);
+  });
+
+  it('reports changed, missing and unknown pairs', () => {
+    const [changed, dropped] = trace.pairKeys;
+    const fields = { ...final.crackFields, [changed]: final.crackFields[changed].map(f => (f === 1 ? 2 : 1)), '99-0': [1, 1] };
+    delete fields[dropped];
+
+    const report = checkParity(scene, reference({ fields }));
+    expect(report.mismatches.map(m => [m.stage, m.key])).toEqual([['final', changed]]);
+    expect(report.mismatches[0].actual).toEqual(final.crackFields[changed]);
+    expect(report.missing).toEqual([dropped]);
+    expect(report.unexpected).toEqual(['99-0']);
+  });
+
+  it('compares the fields before normalization when crossings are given', () => {
+    const crossings = Object.fromEntries(trace.pairKeys.map(key => [key, [1, 1]]));
+    const report = checkParity(scene, reference({ fields: final.crackFields, crossings }));
+    expect(report.stages).toEqual(['crossing', 'final']);
+    expect(report.mismatches.length).toBeGreaterThan(0);
+    expect(report.mismatches.every(m => m.stage === 'crossing')).toBe(true);
+  });
+
+  it('gives the same report from the shown trace, focused or result-only', () => {
+    const crossings = Object.fromEntries(trace.pairKeys.map(key => [key, [1, 1]]));
+    const ref = reference({ fields: final.crackFields, crossings });
+    const focus = { kind: 'node', id: trace.stats.crackIntersections[0]?.nodeIds[0] ?? 0 } as const;
+    const focused = generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, { focus });
+    const resultOnly = generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, { mode: 'result' });
+
+    const expected = checkParity(scene, ref);
+    expect(checkParity(scene, ref, {}, trace)).toEqual(expected);
+    expect(checkParity(scene, ref, { focus }, focused)).toEqual(expected);
+    expect(checkParity(scene, ref, { mode: 'result' }, resultOnly)).toEqual(expected);
+  });
+});
@@ -0,0 +1,176 @@
+import { SimulationOptions, SimulationState, SimulationTrace } from './types';
+import { decodeCombinedField, generateSimulationTrace } from './utils';
+import { fieldStateAt, finalFieldState } from './trace';
+import { SceneFormatError, isObject, readArray, readInteger } from './scene';
+
+// Field output of the Python reference implementation, to check the TypeScript port against
+export const REFERENCE_FORMAT = 'mpm-fracture-reference';
+export const REFERENCE_FORMAT_VERSION = 1;
+
+export type ParityStage = 'crossing' | 'final';
+
+// Per-crack fields by pair key ("nodeId-particleId"), in crack order
+export interface ReferenceFields {
+  source?: string; // Free text, e.g. the script and revision that produced the file
+  fields: Record<string, number[]>;
+  crossings?: Record<string, number[]>; // Before normalization
+}
+
+export interface ParityMismatch {
+  key: string;
+  nodeId: number;
+  particleId: number;
+  stage: ParityStage;
+  expected: number[]; // Reference
+  actual: number[]; // This implementation
+}
+
+export interface ParityReport {
+  source?: string;
+  stages: ParityStage[];
+  comparedPairs: number;
+  mismatches: ParityMismatch[];
+  missing: string[]; // Connected here, absent from the reference
+  unexpected: string[]; // In the reference, not connected here
+}
+
+const PAIR_KEY = /^\d+-\d+$/;
+
+// A value is either the per-crack list or the base-3 combined field
+const readFieldValue = (value: unknown, path: string): number[] => {
+  if (typeof value === 'number') return decodeCombinedField(readInteger(value, path, 1));
+  return readArray(value, path).map((f, i) => {
+    const field = readInteger(f, `${path}[${i}]`, 1);
+    if (field > 3) throw new SceneFormatError(`${path}[${i}]`, `expected a field 1, 2 or 3, got ${field}`);
+    return field;
+  });
+};
+
+const readPairFields = (value: unknown, path: string): Record<string, number[]> => {
+  if (!isObject(value)) throw new SceneFormatError(path, 'expected an object keyed by "nodeId-particleId"');
+  const fields: Record<string, number[]> = {};
+  Object.entries(value).forEach(([key, v]) => {
+    if (!PAIR_KEY.test(key)) throw new SceneFormatError(`${path}.${key}`, 'keys must look like "nodeId-particleId"');
+    fields[key] = readFieldValue(v, `${path}.${key}`);
+  });
+  return fields;
+};
+
+// The node x particle matrix written by the CLI (combined fields, 0 = not connected)
+const readMatrix = (value: unknown, path: string): Record<string, number[]> => {
+  if (!isObject(value)) throw new SceneFormatError(path, 'expected an object with nodes, particles and fields');
+  const nodes = readArray(value.nodes, `${path}.nodes`).map((id, i) => readInteger(id, `${path}.nodes[${i}]`, 0));
+  const particles = readArray(value.particles, `${path}.particles`).map((id, i) => readInteger(id, `${path}.particles[${i}]`, 0));
+  const rows = readArray(value.fields, `${path}.fields`);
+  if (rows.length !== nodes.length) throw new SceneFormatError(`${path}.fields`, `expected ${nodes.length} rows, got ${rows.length}`);
+
+  const fields: Record<string, number[]> = {};
+  rows.forEach((row, r) => {
+    const cells = readArray(row, `${path}.fields[${r}]`);
+    if (cells.length !== particles.length) {
+      throw new SceneFormatError(`${path}.fields[${r}]`, `expected ${particles.length} columns, got ${cells.length}`);
+    }
+    cells.forEach((cell, c) => {
+      const combined = readInteger(cell, `${path}.fields[${r}][${c}]`, 0);
+      if (combined > 0) fields[`${nodes[r]}-${particles[c]}`] = decodeCombinedField(combined);
+    });
+  });
+  return fields;
+};
+
+export const parseReference = (text: string): ReferenceFields => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new SceneFormatError('', `Not valid JSON (${(err as Error).message})`);
+  }
+
+  if (!isObject(raw)) throw new SceneFormatError('', 'Expected a JSON object');
+  if (raw.format !== REFERENCE_FORMAT) {
+    throw new SceneFormatError('format', `expected "${REFERENCE_FORMAT}", got ${JSON.stringify(raw.format)}`);
+  }
+  const version = readInteger(raw.version, 'version', 1);
+  if (version > REFERENCE_FORMAT_VERSION) {
+    throw new SceneFormatError('version', `file uses version ${version}, this visualizer supports up to ${REFERENCE_FORMAT_VERSION}`);
+  }
+  if ((raw.fields === undefined) === (raw.matrix === undefined)) {
+    throw new SceneFormatError('', 'expected exactly one of "fields" and "matrix"');
+  }
+
+  return {
+    source: typeof raw.source === 'string' ? raw.source : undefined,
+    fields: raw.fields !== undefined ? readPairFields(raw.fields, 'fields') : readMatrix(raw.matrix, 'matrix'),
+    crossings: raw.crossings !== undefined ? readPairFields(raw.crossings, 'crossings') : undefined
+  };
+};
+
+export const readReferenceFile = async (file: File): Promise<ReferenceFields> => parseReference(await file.text());
+
+// Per-crack fields at each crack's consistency check header, i.e. after its crossing
+// phase and before its normalization
+const crossingFields = (trace: SimulationTrace, scene: SimulationState): Record<string, number[]> => {
+  const fields: Record<string, number[]> = Object.fromEntries(trace.pairKeys.map(key => [key, []]));
+  scene.cracks.forEach((crack, crackIdx) => {
+    const index = trace.steps.findIndex(s => s.kind === 'consistencyPhase' && s.highlightCrackId === crack.id);
+    const { crackFields } = fieldStateAt(trace, index);
+    trace.pairKeys.forEach(key => { fields[key][crackIdx] = crackFields[key][crackIdx]; });
+  });
+  return fields;
+};
+
+const sameFields = (a: number[], b: number[]) => a.length === b.length && a.every((f, i) => f === b[i]);
+
+// Diffs the algorithm's output on `scene` pair by pair against the reference. `trace`, a run
+// of `scene` with `options`, is reused unless crossings are compared and it is result-only;
+// focused traces still carry every field change. Without one the scene is run here.
+export const checkParity = (
+  scene: SimulationState,
+  reference: ReferenceFields,
+  options: SimulationOptions = {},
+  trace?: SimulationTrace
+): ParityReport => {
+  const stages: ParityStage[] = reference.crossings ? ['crossing', 'final'] : ['final'];
+  const reusable = options.mode !== 'result' || !reference.crossings;
+  const run = trace && reusable ? trace : generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, {
+    ...options,
+    mode: reference.crossings ? 'steps' : 'result',
+    focus: undefined
+  });
+  const actual: Record<ParityStage, Record<string, number[]>> = {
+    final: finalFieldState(run).crackFields,
+    crossing: reference.crossings ? crossingFields(run, scene) : {}
+  };
+  const expected: Record<ParityStage, Record<string, number[]>> = {
+    final: reference.fields,
+    crossing: reference.crossings ?? {}
+  };
+
+  const mismatches: ParityMismatch[] = [];
+  const missing = new Set<string>();
+  const unexpected = new Set<string>();
+  stages.forEach(stage => {
+    Object.keys(expected[stage]).forEach(key => { if (!(key in actual[stage])) unexpected.add(key); });
+    run.pairKeys.forEach(key => {
+      const ref = expected[stage][key];
+      if (!ref) {
+        missing.add(key);
+        return;
+      }
+      const got = actual[stage][key];
+      if (!sameFields(ref, got)) {
+        const [nodeId, particleId] = key.split('-').map(Number);
+        mismatches.push({ key, nodeId, particleId, stage, expected: ref, actual: got });
+      }
+    });
+  });
+
+  return {
+    source: reference.source,
+    stages,
+    comparedPairs: run.pairKeys.length - missing.size,
+    mismatches,
+    missing: Array.from(missing),
+    unexpected: Array.from(unexpected)
+  };
+};
@@ -0,0 +1,71 @@
+import { Point } from './types';
+
+// Error bound of the floating-point orientation determinant (Shewchuk's ccwerrboundA)
+const EPSILON = 2 ** -53;
+const CCW_ERR_BOUND = (3 + 16 * EPSILON) * EPSILON;
+
+// Distance below which a point counts as lying on a line (in scene units)
+export const DEFAULT_TOLERANCE = 1e-9;
+
+// Exact value of a double as mantissa * 2^exponent
+const decompose = (x: number): { m: bigint, e: number } => {
+  if (x === 0) return { m: 0n, e: 0 };
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, x);
+  const hi = view.getUint32(0);
+  const lo = view.getUint32(4);
+  const expBits = (hi >>> 20) & 0x7ff;
+  let m = (BigInt(hi & 0xfffff) << 32n) | BigInt(lo);
+  let e = -1074; // subnormal
+  if (expBits !== 0) {
+    m |= 1n << 52n;
+    e = expBits - 1075;
+  }
+  return { m: hi >>> 31 ? -m : m, e };
+};
+
+// Sign of the orientation determinant computed in exact integer arithmetic
+const exactOrientSign = (a: Point, b: Point, c: Point): number => {
+  const parts = [a.x, a.y, b.x, b.y, c.x, c.y].map(decompose);
+  const eMin = Math.min(...parts.filter(p => p.m !== 0n).map(p => p.e));
+  const [ax, ay, bx, by, cx, cy] = parts.map(p => p.m << BigInt(p.m === 0n ? 0 : p.e - eMin));
+  const det = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  return det > 0n ? 1 : det < 0n ? -1 : 0;
+};
+
+// Sign of orient2d(a, b, c): +1 if c is left of a->b, -1 if right, 0 if collinear.
+// Uses the floating-point result when it is provably correct, else falls back to exact arithmetic.
+export const orientSign = (a: Point, b: Point, c: Point): number => {
+  const detLeft = (b.x - a.x) * (c.y - a.y);
+  const detRight = (b.y - a.y) * (c.x - a.x);
+  const det = detLeft - detRight;
+  const bound = CCW_ERR_BOUND * (Math.abs(detLeft) + Math.abs(detRight));
+  if (det > bound) return 1;
+  if (-det > bound) return -1;
+  return exactOrientSign(a, b, c);
+};
+
+// Orientation with a distance tolerance: c counts as on the line a->b when it is
+// within `tolerance` of it. A tolerance of 0 gives the exact predicate.
+export const orientation = (a: Point, b: Point, c: Point, tolerance = DEFAULT_TOLERANCE): number => {
+  const sign = orientSign(a, b, c);
+  if (sign === 0 || tolerance <= 0) return sign;
+
+  const det = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  return Math.abs(det) <= tolerance * length ? 0 : sign;
+};
+
+// Whether two collinear segments share at least one point
+export const collinearOverlap = (a1: Point, a2: Point, b1: Point, b2: Point, tolerance = DEFAULT_TOLERANCE): boolean => {
+  // Project onto the dominant axis of the combined extent
+  const spanX = Math.max(a1.x, a2.x, b1.x, b2.x) - Math.min(a1.x, a2.x, b1.x, b2.x);
+  const spanY = Math.max(a1.y, a2.y, b1.y, b2.y) - Math.min(a1.y, a2.y, b1.y, b2.y);
+  const axis = (p: Point) => spanX >= spanY ? p.x : p.y;
+
+  const aMin = Math.min(axis(a1), axis(a2));
+  const aMax = Math.max(axis(a1), axis(a2));
+  const bMin = Math.min(axis(b1), axis(b2));
+  const bMax = Math.max(axis(b1), axis(b2));
+  return aMin <= bMax + tolerance && bMin <= aMax + tolerance;
+};
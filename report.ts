@@ -0,0 +1,53 @@
+import { SimulationState, SimulationTrace } from './types';
+import { isInteractionStep } from './steps';
+
+// Final node x particle field matrix. Rows follow `nodes`, columns follow
+// `particles`; 0 marks a pair that is not connected through the grid.
+export interface FieldMatrix {
+  nodes: number[];
+  particles: number[];
+  fields: number[][];
+}
+
+export interface StepSummary {
+  stepCount: number;
+  pairCount: number;
+  normalizations: { nodeId: number; action: string; stepId: number }[];
+  warnings: { nodeId: number; message: string; stepId: number }[];
+  interactions: { nodeIds: number[]; message: string; stepId: number }[]; // Crack limit hits and crack intersections
+  tipPairs: string[]; // Pairs partially crossed at a crack tip
+}
+
+export const buildFieldMatrix = (scene: SimulationState, fieldState: Record<string, number>): FieldMatrix => ({
+  nodes: scene.nodes.map(n => n.id),
+  particles: scene.particles.map(p => p.id),
+  fields: scene.nodes.map(n => scene.particles.map(p => fieldState[`${n.id}-${p.id}`] ?? 0))
+});
+
+export const summarizeTrace = ({ steps, pairKeys }: SimulationTrace): StepSummary => {
+  const summary: StepSummary = {
+    stepCount: steps.length,
+    pairCount: pairKeys.length,
+    normalizations: [],
+    warnings: [],
+    interactions: [],
+    tipPairs: []
+  };
+  const tipPairs = new Set<string>();
+
+  steps.forEach(step => {
+    if ((step.kind === 'normalization' || step.kind === 'resolution') && step.normalizationAction) {
+      summary.normalizations.push({ nodeId: step.consistencyNodeId, action: step.normalizationAction, stepId: step.stepId });
+    }
+    if (step.kind === 'warning') {
+      summary.warnings.push({ nodeId: step.consistencyNodeId, message: step.description, stepId: step.stepId });
+    }
+    if (isInteractionStep(step)) {
+      summary.interactions.push({ nodeIds: step.interactionNodeIds, message: step.description, stepId: step.stepId });
+    }
+    if (step.kind === 'crackTip') step.tipPairKeys.forEach(key => tipPairs.add(key));
+  });
+
+  summary.tipPairs = Array.from(tipPairs);
+  return summary;
+};
@@ -0,0 +1,131 @@
+import { Point, Node, Particle, Crack, GridConfig, SupportType, SimulationState } from './types';
+import { inferGrid } from './grid';
+
+// Identifies our files and lets future format changes be migrated on import
+export const SCENE_FORMAT = 'mpm-fracture-scene';
+export const SCENE_FORMAT_VERSION = 1;
+
+export interface SceneFile {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  scene: SimulationState;
+}
+
+// Raised for any scene (or reference) file that cannot be loaded. `path` points at the offending
+// value (e.g. "scene.nodes[3].x") so the message can be shown to the user as-is.
+export class SceneFormatError extends Error {
+  constructor(public path: string, detail: string) {
+    super(path ? `${path}: ${detail}` : detail);
+    this.name = 'SceneFormatError';
+  }
+}
+
+const SUPPORT_TYPES: SupportType[] = ['linear', 'bspline', 'gimp'];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const readNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SceneFormatError(path, `expected a finite number, got ${JSON.stringify(value)}`);
+  }
+  return value;
+};
+
+export const readInteger = (value: unknown, path: string, min: number): number => {
+  const n = readNumber(value, path);
+  if (!Number.isInteger(n) || n < min) {
+    throw new SceneFormatError(path, `expected an integer >= ${min}, got ${n}`);
+  }
+  return n;
+};
+
+export const readArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new SceneFormatError(path, 'expected an array');
+  return value;
+};
+
+const readPoint = (value: unknown, path: string): Point => {
+  if (!isObject(value)) throw new SceneFormatError(path, 'expected an object with x and y');
+  return { x: readNumber(value.x, `${path}.x`), y: readNumber(value.y, `${path}.y`) };
+};
+
+const readEntities = <T extends { id: number }>(
+  value: unknown,
+  path: string,
+  readOne: (item: Record<string, unknown>, itemPath: string) => T
+): T[] => {
+  const seen = new Set<number>();
+  return readArray(value, path).map((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item)) throw new SceneFormatError(itemPath, 'expected an object');
+    const entity = readOne(item, itemPath);
+    if (seen.has(entity.id)) throw new SceneFormatError(`${itemPath}.id`, `duplicate id ${entity.id}`);
+    seen.add(entity.id);
+    return entity;
+  });
+};
+
+const readGrid = (value: unknown, path: string): GridConfig => {
+  if (!isObject(value)) throw new SceneFormatError(path, 'expected an object');
+  const spacing = readNumber(value.spacing, `${path}.spacing`);
+  if (spacing <= 0) throw new SceneFormatError(`${path}.spacing`, 'must be positive');
+  if (!SUPPORT_TYPES.includes(value.support as SupportType)) {
+    throw new SceneFormatError(`${path}.support`, `expected one of ${SUPPORT_TYPES.join(', ')}, got ${JSON.stringify(value.support)}`);
+  }
+  return {
+    origin: readPoint(value.origin, `${path}.origin`),
+    spacing,
+    cols: readInteger(value.cols, `${path}.cols`, 1),
+    rows: readInteger(value.rows, `${path}.rows`, 1),
+    support: value.support as SupportType
+  };
+};
+
+// Validate an untrusted scene object. A missing grid is inferred from the node layout.
+export const validateScene = (value: unknown, path = 'scene'): SimulationState => {
+  if (!isObject(value)) throw new SceneFormatError(path, 'expected an object');
+
+  const nodes = readEntities<Node>(value.nodes, `${path}.nodes`, (item, p) => ({
+    id: readInteger(item.id, `${p}.id`, 0), ...readPoint(item, p)
+  }));
+  const particles = readEntities<Particle>(value.particles, `${path}.particles`, (item, p) => ({
+    id: readInteger(item.id, `${p}.id`, 0), ...readPoint(item, p)
+  }));
+  const cracks = readEntities<Crack>(value.cracks, `${path}.cracks`, (item, p) => {
+    const points = readArray(item.points, `${p}.points`).map((pt, i) => readPoint(pt, `${p}.points[${i}]`));
+    if (points.length < 2) throw new SceneFormatError(`${p}.points`, 'a crack needs at least 2 points');
+    return { id: readInteger(item.id, `${p}.id`, 0), points };
+  });
+
+  const grid = value.grid === undefined ? inferGrid(nodes) : readGrid(value.grid, `${path}.grid`);
+
+  return { nodes, particles, cracks, grid };
+};
+
+export const serializeScene = (scene: SimulationState): string => {
+  const file: SceneFile = { format: SCENE_FORMAT, version: SCENE_FORMAT_VERSION, scene };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseScene = (text: string): SimulationState => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new SceneFormatError('', `Not valid JSON (${(err as Error).message})`);
+  }
+
+  if (!isObject(raw)) throw new SceneFormatError('', 'Expected a JSON object');
+  if (raw.format !== SCENE_FORMAT) {
+    throw new SceneFormatError('format', `expected "${SCENE_FORMAT}", got ${JSON.stringify(raw.format)}`);
+  }
+  const version = readInteger(raw.version, 'version', 1);
+  if (version > SCENE_FORMAT_VERSION) {
+    throw new SceneFormatError('version', `file uses version ${version}, this visualizer supports up to ${SCENE_FORMAT_VERSION}`);
+  }
+
+  return validateScene(raw.scene);
+};
+
+export const readSceneFile = async (file: File): Promise<SimulationState> => parseScene(await file.text());
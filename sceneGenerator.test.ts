@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GENERATOR_OPTIONS, SceneGeneratorOptions, describeGeneratorOptions, generateScene } from './sceneGenerator';
+
+const generate = (overrides: Partial<SceneGeneratorOptions>) => generateScene({ ...DEFAULT_GENERATOR_OPTIONS, ...overrides });
+
+describe('jittered particle layout', () => {
+  it.each([1, 2, 5, 7, 9])('places %i particles per cell, each in its own sub-cell', k => {
+    const { particles } = generate({ layout: 'jittered', particlesPerCell: k, cols: 3, rows: 2, crackPattern: 'none' });
+    expect(particles).toHaveLength(3 * 2 * k);
+
+    const strata = Math.ceil(Math.sqrt(k));
+    const subCells = new Set(particles.map(p => `${Math.floor(p.x * strata)},${Math.floor(p.y * strata)}`));
+    expect(subCells.size).toBe(particles.length);
+  });
+
+  it('names the per-cell count of the layout in use', () => {
+    expect(describeGeneratorOptions({ ...DEFAULT_GENERATOR_OPTIONS, layout: 'jittered', particlesPerCell: 5 })).toContain('5/cell jittered');
+    expect(describeGeneratorOptions({ ...DEFAULT_GENERATOR_OPTIONS, particlesPerSide: 3 })).toContain('3x3 gauss');
+  });
+});
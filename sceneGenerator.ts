@@ -0,0 +1,218 @@
+import { Crack, Node, Particle, Point, SimulationState } from './types';
+
+export type ParticleLayout = 'gauss' | 'jittered';
+export type CrackPattern = 'none' | 'straight' | 'kinked' | 'zigzag' | 'random-walk' | 'crossing';
+
+export interface SceneGeneratorOptions {
+  cols: number;
+  rows: number;
+  spacing: number;
+  particlesPerSide: number; // Gauss layout: particles per cell along each axis (n x n per cell)
+  particlesPerCell: number; // Jittered layout: K particles per cell, any count
+  layout: ParticleLayout;
+  crackPattern: CrackPattern;
+  crackCount: number;
+  segmentsPerCrack: number;
+  seed: number; // Same options and seed always give the same scene
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: SceneGeneratorOptions = {
+  cols: 6,
+  rows: 5,
+  spacing: 1,
+  particlesPerSide: 2,
+  particlesPerCell: 4,
+  layout: 'gauss',
+  crackPattern: 'zigzag',
+  crackCount: 1,
+  segmentsPerCrack: 6,
+  seed: 1
+};
+
+export const crackPatternLabels: Record<CrackPattern, string> = {
+  none: 'No cracks',
+  straight: 'Straight',
+  kinked: 'Kinked',
+  zigzag: 'Zig-zag',
+  'random-walk': 'Random walk',
+  crossing: 'Crossing'
+};
+
+// mulberry32: small, fast and good enough to scatter points reproducibly
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Gauss-Legendre abscissae on [-1, 1], ascending (Newton iteration on P_n)
+const gaussLegendreNodes = (n: number): number[] => {
+  const xs: number[] = [];
+  for (let i = 1; i <= n; i++) {
+    let x = Math.cos((Math.PI * (i - 0.25)) / (n + 0.5));
+    for (let iter = 0; iter < 100; iter++) {
+      let p0 = 1;
+      let p1 = x;
+      for (let k = 2; k <= n; k++) {
+        const p2 = ((2 * k - 1) * x * p1 - (k - 1) * p0) / k;
+        p0 = p1;
+        p1 = p2;
+      }
+      const dx = p1 / ((n * (x * p1 - p0)) / (x * x - 1));
+      x -= dx;
+      if (Math.abs(dx) < 1e-15) break;
+    }
+    xs.push(x);
+  }
+  return xs.sort((a, b) => a - b);
+};
+
+// Keeps generated files readable; a vertex landing exactly on a node stays vanishingly unlikely
+const round = (v: number) => Math.round(v * 1e4) / 1e4;
+
+// Parameter range where the line c + t * d lies inside the box
+const lineInBox = (c: Point, d: Point, min: Point, max: Point): [number, number] => {
+  let t0 = -Infinity;
+  let t1 = Infinity;
+  ([['x', d.x], ['y', d.y]] as const).forEach(([axis, dir]) => {
+    if (dir === 0) return;
+    const a = (min[axis] - c[axis]) / dir;
+    const b = (max[axis] - c[axis]) / dir;
+    t0 = Math.max(t0, Math.min(a, b));
+    t1 = Math.min(t1, Math.max(a, b));
+  });
+  return [t0, t1];
+};
+
+export const generateScene = (options: SceneGeneratorOptions): SimulationState => {
+  const { cols, rows, spacing, particlesPerSide, particlesPerCell, layout, crackPattern, crackCount, segmentsPerCrack, seed } = options;
+  const random = seededRandom(seed);
+  const width = cols * spacing;
+  const height = rows * spacing;
+
+  const nodes: Node[] = [];
+  for (let j = 0; j <= rows; j++) {
+    for (let i = 0; i <= cols; i++) nodes.push({ id: nodes.length, x: i * spacing, y: j * spacing });
+  }
+
+  // Offsets within a cell, as fractions of the spacing
+  const gauss = gaussLegendreNodes(particlesPerSide).map(x => (1 + x) / 2);
+  const particles: Particle[] = [];
+  const place = (i: number, j: number, u: number, v: number) =>
+    particles.push({ id: particles.length, x: round((i + u) * spacing), y: round((j + v) * spacing) });
+
+  // Jittered: one random point in each of K of the n x n sub-cells, n = ceil(sqrt(K)).
+  // Unless K is a square, each cell draws which sub-cells stay empty.
+  const strata = Math.ceil(Math.sqrt(particlesPerCell));
+  const subCells = (): number[] => {
+    const all = Array.from({ length: strata * strata }, (_, s) => s);
+    if (particlesPerCell === all.length) return all;
+    for (let s = 0; s < particlesPerCell; s++) {
+      const pick = s + Math.floor(random() * (all.length - s));
+      [all[s], all[pick]] = [all[pick], all[s]];
+    }
+    return all.slice(0, particlesPerCell).sort((a, b) => a - b);
+  };
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      if (layout === 'gauss') {
+        gauss.forEach(v => gauss.forEach(u => place(i, j, u, v)));
+      } else {
+        subCells().forEach(s => {
+          const u = (s % strata + random()) / strata;
+          const v = (Math.floor(s / strata) + random()) / strata;
+          place(i, j, u, v);
+        });
+      }
+    }
+  }
+
+  // Cracks start and end half a cell outside the patch so they cut it completely
+  const margin = spacing / 2;
+  const boxMin = { x: -margin, y: -margin };
+  const boxMax = { x: width + margin, y: height + margin };
+  const segments = Math.max(1, segmentsPerCrack);
+
+  // Polyline through `center` along `angle`, clipped to the padded patch. `offset(s)`
+  // moves the vertex at s in [0, 1] sideways, giving kinks and zig-zags.
+  const alongLine = (center: Point, angle: number, offset: (s: number, idx: number) => number): Point[] => {
+    const d = { x: Math.cos(angle), y: Math.sin(angle) };
+    const normal = { x: -d.y, y: d.x };
+    const [t0, t1] = lineInBox(center, d, boxMin, boxMax);
+    const points: Point[] = [];
+    for (let k = 0; k <= segments; k++) {
+      const s = k / segments;
+      const t = t0 + (t1 - t0) * s;
+      const side = offset(s, k);
+      points.push({
+        x: round(center.x + d.x * t + normal.x * side),
+        y: round(center.y + d.y * t + normal.y * side)
+      });
+    }
+    return points;
+  };
+
+  const bandHeight = height / (crackCount + 1);
+  const bandCenter = (c: number): Point => ({
+    x: width * (0.4 + 0.2 * random()),
+    y: bandHeight * (c + 1) + bandHeight * 0.2 * (random() - 0.5)
+  });
+  const gentleAngle = () => (random() - 0.5) * (Math.PI / 9);
+
+  const crackPoints = (c: number): Point[] => {
+    switch (crackPattern) {
+      case 'straight':
+        return alongLine(bandCenter(c), gentleAngle(), () => 0);
+      case 'kinked': {
+        const kink = (random() < 0.5 ? -1 : 1) * bandHeight * (0.15 + 0.15 * random());
+        return alongLine(bandCenter(c), gentleAngle(), s => kink * (1 - Math.abs(2 * s - 1)));
+      }
+      case 'zigzag': {
+        const amplitude = Math.min(1.5 * spacing, bandHeight / 2) * (0.5 + 0.5 * random());
+        return alongLine(bandCenter(c), gentleAngle(), (_, k) => (k % 2 === 0 ? -amplitude : amplitude));
+      }
+      case 'random-walk': {
+        // Left to right with a heading that drifts; may stop inside the patch
+        const step = (width + 2 * margin) / segments;
+        let heading = gentleAngle();
+        const points: Point[] = [{ x: -margin, y: round(bandCenter(c).y) }];
+        for (let k = 0; k < segments; k++) {
+          heading = Math.max(-1.4, Math.min(1.4, heading + (random() - 0.5) * 1.2));
+          const last = points[points.length - 1];
+          points.push({ x: round(last.x + step * Math.cos(heading)), y: round(last.y + step * Math.sin(heading)) });
+        }
+        return points;
+      }
+      case 'crossing': {
+        // All cracks pass near the patch center at evenly spread angles
+        const center = { x: width * (0.45 + 0.1 * random()), y: height * (0.45 + 0.1 * random()) };
+        return alongLine(center, (c * Math.PI) / crackCount + 0.3 * (random() - 0.5), () => 0);
+      }
+      case 'none':
+        return [];
+    }
+  };
+
+  const cracks: Crack[] = crackPattern === 'none'
+    ? []
+    : Array.from({ length: crackCount }, (_, c) => ({ id: c, points: crackPoints(c) }));
+
+  return {
+    nodes,
+    particles,
+    cracks,
+    grid: { origin: { x: 0, y: 0 }, spacing, cols, rows, support: 'linear' }
+  };
+};
+
+// One-line summary to quote in bug reports, e.g. "6x5 cells h=1, 2x2 gauss, zigzag 1x6, seed 1"
+export const describeGeneratorOptions = (o: SceneGeneratorOptions): string =>
+  `${o.cols}x${o.rows} cells h=${o.spacing}, ` +
+  `${o.layout === 'gauss' ? `${o.particlesPerSide}x${o.particlesPerSide}` : `${o.particlesPerCell}/cell`} ${o.layout}, ` +
+  `${o.crackPattern} ${o.crackCount}x${o.segmentsPerCrack}, seed ${o.seed}`;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { presets, generateSimulationTrace } from './utils';
+import { SimulationState } from './types';
+import { encodeShareHash, decodeShareHash, settleStepIndex } from './shareLink';
+
+const stepCount = (scene: SimulationState) =>
+  generateSimulationTrace(scene.nodes, scene.particles, scene.cracks, scene.grid, {}).steps.length;
+
+describe('restoring the step of a shared link', () => {
+  it('keeps a step beyond the previous trace until the shared scene has its trace', async () => {
+    const before = stepCount(presets.case1);
+    const shared = await decodeShareHash(await encodeShareHash({ scene: presets.case3, stepIndex: 50, preset: 'case3' }));
+    expect(shared?.stepIndex).toBe(50);
+    expect(before).toBeLessThan(50);
+
+    // Case 1's trace is still on screen while the worker runs Case 3
+    const waiting = settleStepIndex(3, shared!.stepIndex, before, false);
+    expect(waiting).toEqual({ index: 3, pending: 50 });
+
+    const settled = settleStepIndex(waiting.index, waiting.pending, stepCount(shared!.scene), true);
+    expect(settled).toEqual({ index: 50, pending: null });
+  });
+
+  it('clamps a step past the end once the trace is current', () => {
+    expect(settleStepIndex(0, 500, 71, true)).toEqual({ index: 70, pending: null });
+    expect(settleStepIndex(40, null, 24, false)).toEqual({ index: 23, pending: null });
+  });
+});
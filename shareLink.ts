@@ -0,0 +1,105 @@
+import { SimulationState } from './types';
+import { presets, PresetKey } from './utils';
+import { validateScene, SceneFormatError } from './scene';
+
+// Hash layout: #v=1&preset=case2&step=12&scene=<base64url(deflate(json))>
+// The scene is only included when it differs from the selected preset.
+export const SHARE_LINK_VERSION = 1;
+
+export interface ShareState {
+  scene: SimulationState;
+  stepIndex: number;
+  preset: PresetKey | null;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: BlobPart, stream: GenericTransformStream): Promise<Uint8Array> => {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+};
+
+export const compressText = async (text: string): Promise<string> =>
+  toBase64Url(await pipeThrough(new TextEncoder().encode(text), new CompressionStream('deflate-raw')));
+
+export const decompressText = async (encoded: string): Promise<string> =>
+  new TextDecoder().decode(await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+
+const isPresetKey = (value: string | null): value is PresetKey =>
+  value !== null && Object.prototype.hasOwnProperty.call(presets, value);
+
+export const encodeShareHash = async ({ scene, stepIndex, preset }: ShareState): Promise<string> => {
+  const params = new URLSearchParams({ v: String(SHARE_LINK_VERSION) });
+  if (preset) params.set('preset', preset);
+  params.set('step', String(stepIndex));
+
+  const matchesPreset = preset !== null && JSON.stringify(presets[preset]) === JSON.stringify(scene);
+  if (!matchesPreset) params.set('scene', await compressText(JSON.stringify(scene)));
+
+  return `#${params.toString()}`;
+};
+
+// Returns null for an empty hash. Throws SceneFormatError when the link is malformed.
+export const decodeShareHash = async (hash: string): Promise<ShareState | null> => {
+  const raw = hash.replace(/^#/, '');
+  if (!raw) return null;
+
+  const params = new URLSearchParams(raw);
+  const version = params.get('v');
+  if (version !== String(SHARE_LINK_VERSION)) {
+    throw new SceneFormatError('v', `unsupported link version ${JSON.stringify(version)}`);
+  }
+
+  const presetParam = params.get('preset');
+  if (presetParam !== null && !isPresetKey(presetParam)) {
+    throw new SceneFormatError('preset', `unknown preset ${JSON.stringify(presetParam)}`);
+  }
+  const preset = presetParam as PresetKey | null;
+
+  const stepIndex = Number(params.get('step') ?? 0);
+  if (!Number.isInteger(stepIndex) || stepIndex < 0) {
+    throw new SceneFormatError('step', `expected a non-negative integer, got ${JSON.stringify(params.get('step'))}`);
+  }
+
+  const encodedScene = params.get('scene');
+  let scene: SimulationState;
+  if (encodedScene) {
+    let json: unknown;
+    try {
+      json = JSON.parse(await decompressText(encodedScene));
+    } catch {
+      throw new SceneFormatError('scene', 'could not decompress scene data');
+    }
+    scene = validateScene(json);
+  } else if (preset) {
+    scene = presets[preset];
+  } else {
+    throw new SceneFormatError('', 'link contains neither a scene nor a preset');
+  }
+
+  return { scene, stepIndex, preset };
+};
+
+// Where the step cursor goes for the trace on screen. A step asked for by a link stays
+// pending until the trace of the link's own scene is in, since an older, shorter trace
+// would clamp it; any other index past the end falls back to the last step right away.
+export const settleStepIndex = (
+  index: number,
+  pending: number | null,
+  stepCount: number,
+  traceIsCurrent: boolean
+): { index: number; pending: number | null } => {
+  const lastStep = Math.max(0, stepCount - 1);
+  if (pending === null || !traceIsCurrent) return { index: Math.min(index, lastStep), pending };
+  return { index: Math.min(pending, lastStep), pending: null };
+};
@@ -0,0 +1,29 @@
+// Runs generateSimulationTrace off the main thread. Each request carries a run id
+// that is echoed back, so the page can drop answers to scenes it has moved past.
+import { generateSimulationTrace } from './utils';
+import { checkParity } from './parity';
+import { SimulationRequest, SimulationResponse } from './useSimulationTrace';
+
+const ctx = self as unknown as Worker;
+
+// Quick runs report no progress at all, so the progress bar does not flash while dragging
+const PROGRESS_DELAY_MS = 100;
+
+ctx.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const { runId, nodes, particles, cracks, grid, options, reference } = e.data;
+  const post = (message: SimulationResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+  // One message per whole percent is plenty for a progress bar
+  const started = performance.now();
+  let lastPercent = -1;
+  const trace = generateSimulationTrace(nodes, particles, cracks, grid, options, fraction => {
+    const percent = Math.floor(fraction * 100);
+    if (percent === lastPercent || performance.now() - started < PROGRESS_DELAY_MS) return;
+    lastPercent = percent;
+    post({ type: 'progress', runId, fraction });
+  });
+
+  // Compared before the snapshot buffers are transferred away
+  const parity = reference ? checkParity({ nodes, particles, cracks, grid }, reference, options, trace) : null;
+  post({ type: 'done', runId, trace, parity }, trace.snapshots.map(s => s.buffer));
+};
@@ -0,0 +1,108 @@
+import { Point } from './types';
+
+export interface Box {
+  min: Point;
+  max: Point;
+}
+
+// Bounding box of `points` widened by `pad` (a loop, since spreading large scenes
+// into Math.min would overflow the call stack)
+export const boxOf = (points: Point[], pad = 0): Box => {
+  const box: Box = { min: { x: Infinity, y: Infinity }, max: { x: -Infinity, y: -Infinity } };
+  points.forEach(p => {
+    box.min.x = Math.min(box.min.x, p.x - pad);
+    box.min.y = Math.min(box.min.y, p.y - pad);
+    box.max.x = Math.max(box.max.x, p.x + pad);
+    box.max.y = Math.max(box.max.y, p.y + pad);
+  });
+  return box;
+};
+
+export const boxesOverlap = (a: Box, b: Box): boolean =>
+  a.min.x <= b.max.x && b.min.x <= a.max.x && a.min.y <= b.max.y && b.min.y <= a.max.y;
+
+// Uniform bucket grid over the segments of one crack polyline. Buckets are keyed
+// "i,j" with no fixed extent, so scenes reaching past the background grid still work.
+export interface SegmentIndex {
+  origin: Point;
+  cellSize: number;
+  pad: number;
+  buckets: Map<string, number[]>; // Segment indices, ascending
+}
+
+const bucketKey = (i: number, j: number) => `${i},${j}`;
+
+// Parameter range [t0, t1] of a -> b inside the band lo <= coord <= hi, or null
+const clipToBand = (a: number, b: number, lo: number, hi: number, t0: number, t1: number): [number, number] | null => {
+  const d = b - a;
+  if (d === 0) return a < lo || a > hi ? null : [t0, t1];
+  let tLo = (lo - a) / d;
+  let tHi = (hi - a) / d;
+  if (tLo > tHi) [tLo, tHi] = [tHi, tLo];
+  const from = Math.max(t0, tLo);
+  const to = Math.min(t1, tHi);
+  return from <= to ? [from, to] : null;
+};
+
+// Buckets every segment into each cell its `pad`-widened footprint touches. Only
+// the part inside `domain` (where the queries come from) is rasterized, so a crack
+// running far past the scene costs nothing extra.
+export const buildSegmentIndex = (
+  points: Point[],
+  origin: Point,
+  cellSize: number,
+  domain: Box,
+  pad: number
+): SegmentIndex => {
+  const index: SegmentIndex = { origin, cellSize, pad, buckets: new Map() };
+  const cellX = (x: number) => Math.floor((x - origin.x) / cellSize);
+  const cellY = (y: number) => Math.floor((y - origin.y) / cellSize);
+
+  for (let s = 0; s < points.length - 1; s++) {
+    const a = points[s];
+    const b = points[s + 1];
+    const inX = clipToBand(a.x, b.x, domain.min.x - pad, domain.max.x + pad, 0, 1);
+    const inDomain = inX && clipToBand(a.y, b.y, domain.min.y - pad, domain.max.y + pad, inX[0], inX[1]);
+    if (!inDomain) continue;
+
+    const yAt = (t: number) => a.y + (b.y - a.y) * t;
+    const jFrom = cellY(Math.min(yAt(inDomain[0]), yAt(inDomain[1])) - pad);
+    const jTo = cellY(Math.max(yAt(inDomain[0]), yAt(inDomain[1])) + pad);
+
+    for (let j = jFrom; j <= jTo; j++) {
+      // Part of the segment within this row of cells (widened by pad)
+      const rowLo = origin.y + j * cellSize - pad;
+      const row = clipToBand(a.y, b.y, rowLo, rowLo + cellSize + 2 * pad, inDomain[0], inDomain[1]);
+      if (!row) continue;
+
+      const x0 = a.x + (b.x - a.x) * row[0];
+      const x1 = a.x + (b.x - a.x) * row[1];
+      const iTo = cellX(Math.max(x0, x1) + pad);
+      for (let i = cellX(Math.min(x0, x1) - pad); i <= iTo; i++) {
+        const key = bucketKey(i, j);
+        const bucket = index.buckets.get(key);
+        if (!bucket) index.buckets.set(key, [s]);
+        else if (bucket[bucket.length - 1] !== s) bucket.push(s);
+      }
+    }
+  }
+
+  return index;
+};
+
+// Segments that may come within `pad` of the line a -> b, in ascending order
+export const segmentCandidates = (index: SegmentIndex, a: Point, b: Point): number[] => {
+  const { origin, cellSize, pad } = index;
+  const iFrom = Math.floor((Math.min(a.x, b.x) - pad - origin.x) / cellSize);
+  const iTo = Math.floor((Math.max(a.x, b.x) + pad - origin.x) / cellSize);
+  const jFrom = Math.floor((Math.min(a.y, b.y) - pad - origin.y) / cellSize);
+  const jTo = Math.floor((Math.max(a.y, b.y) + pad - origin.y) / cellSize);
+
+  const found = new Set<number>();
+  for (let j = jFrom; j <= jTo; j++) {
+    for (let i = iFrom; i <= iTo; i++) {
+      index.buckets.get(bucketKey(i, j))?.forEach(s => found.add(s));
+    }
+  }
+  return Array.from(found).sort((x, y) => x - y);
+};
@@ -0,0 +1,39 @@
+import {
+  SimulationStep,
+  SegmentCheckStep,
+  TipCheckStep,
+  CrackTipStep,
+  CrackIntersectionStep,
+  CrackLimitStep,
+  ConsistencyScanStep,
+  WarningStep,
+  NormalizationStep,
+  ResolutionStep
+} from './types';
+
+// Type guards over the step kinds that share data, so consumers don't probe for fields
+
+export type CrossingCheckStep = SegmentCheckStep | TipCheckStep;
+export type TipStep = CrackTipStep | TipCheckStep;
+export type InteractionStep = CrackIntersectionStep | CrackLimitStep;
+export type ConsistencyStep = ConsistencyScanStep | WarningStep | NormalizationStep | ResolutionStep;
+
+export const isCrossingCheck = (step: SimulationStep): step is CrossingCheckStep =>
+  step.kind === 'segmentCheck' || step.kind === 'tipCheck';
+
+export const isTipStep = (step: SimulationStep): step is TipStep =>
+  step.kind === 'crackTip' || step.kind === 'tipCheck';
+
+export const isInteractionStep = (step: SimulationStep): step is InteractionStep =>
+  step.kind === 'crackIntersection' || step.kind === 'crackLimit';
+
+export const isConsistencyStep = (step: SimulationStep): step is ConsistencyStep =>
+  step.kind === 'consistencyScan' || step.kind === 'warning' || step.kind === 'normalization' || step.kind === 'resolution';
+
+// The field remap a step applies: normalizations always, three-field resolutions when they remap
+export const normalizationActionOf = (step: SimulationStep): string | undefined =>
+  step.kind === 'normalization' || step.kind === 'resolution' ? step.normalizationAction : undefined;
+
+// The crossing result shown for a step: per segment (0, 2, 3) or per pair (1, 2, 3)
+export const crossingResultOf = (step: SimulationStep): number | undefined =>
+  isCrossingCheck(step) || step.kind === 'pairResult' ? step.crossingResult : undefined;
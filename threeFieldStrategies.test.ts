@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { generateSimulationTrace, decodeCombinedField } from './utils';
+import { combineFields, finalFieldState } from './trace';
+import { normalizationActionOf } from './steps';
+import { threeFieldStrategies, ThreeFieldContext } from './threeFieldStrategies';
+import { Crack, FieldType, GridConfig, Node, Particle, ThreeFieldStrategy } from './types';
+
+// A node that sees [1, 2, 3]: `fields` maps particle ids to their field for an L-shaped
+// crack running right along y = 5, then up along x = 5
+const context = (particles: Particle[], fields: Record<number, number>): ThreeFieldContext => ({
+  node: { x: 0, y: 0 },
+  particles,
+  fieldOf: id => fields[id],
+  crack: { id: 0, points: [{ x: 0, y: 5 }, { x: 5, y: 5 }, { x: 5, y: 10 }] },
+  tolerance: 1e-9
+});
+const crossedAbove: Particle = { id: 0, x: 8, y: 9 };
+const crossedBelow: Particle = { id: 1, x: 8, y: 1 };
+
+describe('three-field strategies', () => {
+  it('nearest-side sends each field-1 particle to the side of its nearest segment', () => {
+    const uncrossed: Particle[] = [
+      { id: 10, x: 6, y: 8 }, // Right of the upright segment, though above the horizontal one
+      { id: 11, x: 2, y: 6 },
+      { id: 12, x: 2, y: 2 },
+      { id: 13, x: 2, y: 5 } // On the line, which counts as the + side
+    ];
+    const ctx = context([crossedAbove, crossedBelow, ...uncrossed], { 0: 2, 1: 3, 10: 1, 11: 1, 12: 1, 13: 1 });
+    expect(threeFieldStrategies['nearest-side'](ctx).remaps).toEqual([
+      { particleId: 10, to: FieldType.BELOW },
+      { particleId: 11, to: FieldType.ABOVE },
+      { particleId: 12, to: FieldType.BELOW },
+      { particleId: 13, to: FieldType.ABOVE }
+    ]);
+  });
+
+  it('majority sends the field-1 particles opposite the side most crossed particles are on', () => {
+    const secondAbove: Particle = { id: 2, x: 9, y: 9 };
+    const uncrossed: Particle = { id: 10, x: 2, y: 2 };
+    const ctx = context([crossedAbove, secondAbove, crossedBelow, uncrossed], { 0: 2, 2: 2, 1: 3, 10: 1 });
+    expect(threeFieldStrategies.majority(ctx).remaps).toEqual([{ particleId: 10, to: FieldType.BELOW }]);
+  });
+
+  it('majority leaves a tied node as it is', () => {
+    const uncrossed: Particle = { id: 10, x: 2, y: 2 };
+    const ctx = context([crossedAbove, crossedBelow, uncrossed], { 0: 2, 1: 3, 10: 1 });
+    const resolution = threeFieldStrategies.majority(ctx);
+    expect(resolution.remaps).toEqual([]);
+    expect(resolution.note).toContain('tied');
+  });
+
+  it('leave changes nothing', () => {
+    const uncrossed: Particle = { id: 10, x: 2, y: 2 };
+    const ctx = context([crossedAbove, crossedBelow, uncrossed], { 0: 2, 1: 3, 10: 1 });
+    expect(threeFieldStrategies.leave(ctx).remaps).toEqual([]);
+  });
+});
+
+// One 10 x 10 cell; the V-shaped crack leaves node 1 (bottom right) with fields
+// [2, 1, 3, 1] towards particles 0..3
+const nodes: Node[] = [
+  { id: 0, x: 0, y: 0 }, { id: 1, x: 10, y: 0 },
+  { id: 2, x: 0, y: 10 }, { id: 3, x: 10, y: 10 }
+];
+const particles: Particle[] = [
+  { id: 0, x: 2.5, y: 2.5 }, { id: 1, x: 7.5, y: 2.5 },
+  { id: 2, x: 2.5, y: 7.5 }, { id: 3, x: 7.5, y: 7.5 }
+];
+const cracks: Crack[] = [{ id: 0, points: [{ x: 6, y: 8 }, { x: 2, y: 2 }, { x: 7, y: 1 }] }];
+const grid: GridConfig = { origin: { x: 0, y: 0 }, spacing: 10, cols: 1, rows: 1, support: 'linear' };
+
+const run = (threeFieldStrategy: ThreeFieldStrategy) =>
+  generateSimulationTrace(nodes, particles, cracks, grid, { threeFieldStrategy });
+const nodeOneFields = (threeFieldStrategy: ThreeFieldStrategy) => {
+  const { crackFields } = finalFieldState(run(threeFieldStrategy));
+  return particles.map(p => crackFields[`1-${p.id}`][0]);
+};
+// Remaps of the three-field resolution, as opposed to the usual two-field normalizations
+const resolutionActions = (threeFieldStrategy: ThreeFieldStrategy) =>
+  run(threeFieldStrategy).steps.filter(s => s.kind === 'resolution').map(normalizationActionOf).filter(a => a !== undefined);
+
+describe('three-field resolution in the trace', () => {
+  it('records the remaps as normalization actions with their field changes', () => {
+    const resolution = run('nearest-side').steps.find(s => s.kind === 'resolution');
+    expect(resolution && normalizationActionOf(resolution)).toBe('1->2');
+    expect(resolution?.fieldChanges).toEqual([
+      { key: '1-1', crackIndex: 0, from: 1, to: 2 },
+      { key: '1-3', crackIndex: 0, from: 1, to: 2 }
+    ]);
+    expect(nodeOneFields('nearest-side')).toEqual([2, 2, 3, 2]);
+  });
+
+  it('keeps the fields under leave and a tied majority', () => {
+    expect(nodeOneFields('leave')).toEqual([2, 1, 3, 1]);
+    expect(nodeOneFields('majority')).toEqual([2, 1, 3, 1]);
+    expect(resolutionActions('majority')).toEqual([]);
+  });
+});
+
+describe('split three-field strategy', () => {
+  it('moves the field-1 particles to an extra field where leave keeps them', () => {
+    expect(nodeOneFields('leave')).toEqual([2, 1, 3, 1]);
+    expect(nodeOneFields('split')).toEqual([2, FieldType.EXTRA, 3, FieldType.EXTRA]);
+    expect(resolutionActions('leave')).toEqual([]);
+    expect(resolutionActions('split')).toEqual(['1->extra']);
+  });
+
+  it('gives tuples with an extra field their own combined values', () => {
+    const { combined, crackFields } = finalFieldState(run('split'));
+    expect(combined['1-1']).toBe(-4);
+    Object.entries(crackFields).forEach(([key, fields]) => {
+      expect(decodeCombinedField(combined[key])).toEqual(fields);
+    });
+    expect(combineFields([2, 4, 1])).toBe(-(2 + 4 * 4 + 1 * 16));
+    expect(decodeCombinedField(combineFields([2, 4, 1]))).toEqual([2, 4, 1]);
+  });
+});
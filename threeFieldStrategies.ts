@@ -0,0 +1,68 @@
+import { Point, Particle, Crack, ThreeFieldStrategy, FieldType } from './types';
+import { orientation } from './predicates';
+
+// A node whose connected particles carry fields [1, 2, 3] for one crack
+export interface ThreeFieldContext {
+  node: Point;
+  particles: Particle[]; // Connected particles taking part in the consistency check
+  fieldOf: (particleId: number) => number;
+  crack: Crack;
+  tolerance: number;
+}
+
+export interface ThreeFieldResolution {
+  remaps: { particleId: number; to: number }[]; // New field (2, 3 or 4) for some field-1 particles
+  note: string;
+}
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Side of the crack's nearest segment: left (+, zero included) is field 2, right is field 3,
+// the same convention checkCrossing uses for "crossed above" / "crossed below"
+const nearestSide = (p: Point, crack: Crack, tolerance: number): number => {
+  let best = Infinity;
+  let side = FieldType.ABOVE;
+  for (let i = 0; i < crack.points.length - 1; i++) {
+    const d = distanceToSegment(p, crack.points[i], crack.points[i + 1]);
+    if (d < best) {
+      best = d;
+      side = orientation(crack.points[i], crack.points[i + 1], p, tolerance) >= 0 ? FieldType.ABOVE : FieldType.BELOW;
+    }
+  }
+  return side;
+};
+
+const fieldOneParticles = (ctx: ThreeFieldContext) =>
+  ctx.particles.filter(p => ctx.fieldOf(p.id) === FieldType.NONE);
+
+export const threeFieldStrategies: Record<ThreeFieldStrategy, (ctx: ThreeFieldContext) => ThreeFieldResolution> = {
+  leave: () => ({ remaps: [], note: 'left as is' }),
+
+  'nearest-side': (ctx) => ({
+    remaps: fieldOneParticles(ctx).map(p => ({ particleId: p.id, to: nearestSide(p, ctx.crack, ctx.tolerance) })),
+    note: 'nearest crack side'
+  }),
+
+  // Uncrossed particles share the node's side, which is opposite the side most crossed particles are on
+  majority: (ctx) => {
+    const above = ctx.particles.filter(p => ctx.fieldOf(p.id) === FieldType.ABOVE).length;
+    const below = ctx.particles.filter(p => ctx.fieldOf(p.id) === FieldType.BELOW).length;
+    if (above === below) return { remaps: [], note: `majority vote tied (${above} above, ${below} below), left as is` };
+    const to = above > below ? FieldType.BELOW : FieldType.ABOVE;
+    return {
+      remaps: fieldOneParticles(ctx).map(p => ({ particleId: p.id, to })),
+      note: `majority vote ${above} above vs ${below} below`
+    };
+  },
+
+  split: (ctx) => ({
+    remaps: fieldOneParticles(ctx).map(p => ({ particleId: p.id, to: FieldType.EXTRA })),
+    note: 'extra node field'
+  })
+};
@@ -0,0 +1,66 @@
+import { SimulationStep } from './types';
+import { isInteractionStep, normalizationActionOf } from './steps';
+
+export type PhaseKind = 'init' | 'crossing' | 'consistency' | 'done';
+export type EventKind = 'crack' | 'result' | 'normalization' | 'warning' | 'tip' | 'interaction';
+
+export interface PhaseBand {
+  kind: PhaseKind;
+  start: number; // First step index (inclusive)
+  end: number; // Last step index (inclusive)
+  crackId?: number;
+}
+
+export interface EventMarker {
+  kind: EventKind;
+  index: number;
+  description: string;
+}
+
+export interface TimelineMarkers {
+  phases: PhaseBand[];
+  events: EventMarker[];
+}
+
+const phaseOf = (step: SimulationStep): PhaseKind | null => {
+  switch (step.kind) {
+    case 'init': return 'init';
+    case 'crackStart': return 'crossing';
+    case 'consistencyPhase': return 'consistency';
+    case 'done': return 'done';
+    default: return null;
+  }
+};
+
+const eventOf = (step: SimulationStep): EventKind | null => {
+  if (isInteractionStep(step)) return 'interaction';
+  if (normalizationActionOf(step)) return 'normalization';
+  switch (step.kind) {
+    case 'warning': return 'warning';
+    case 'pairResult': return 'result';
+    case 'crackStart': return 'crack';
+    case 'crackTip': return 'tip';
+    default: return null;
+  }
+};
+
+// Split the trace into phase bands (a new band starts at every phase header step)
+// and collect the steps worth marking on the timeline
+export const buildTimeline = (steps: SimulationStep[]): TimelineMarkers => {
+  const phases: PhaseBand[] = [];
+  const events: EventMarker[] = [];
+
+  steps.forEach((step, index) => {
+    const phase = phaseOf(step);
+    if (phase) {
+      if (phases.length > 0) phases[phases.length - 1].end = index - 1;
+      phases.push({ kind: phase, start: index, end: index, crackId: step.highlightCrackId });
+    }
+
+    const event = eventOf(step);
+    if (event) events.push({ kind: event, index, description: step.description });
+  });
+
+  if (phases.length > 0) phases[phases.length - 1].end = steps.length - 1;
+  return { phases, events };
+};
@@ -0,0 +1,67 @@
+import { FieldState, FieldType, RunStats, SimulationStep, SimulationTrace } from './types';
+
+// Lower bound on steps between snapshots, so tiny scenes don't snapshot every step
+export const MIN_SNAPSHOT_INTERVAL = 32;
+
+// Base-3 combination of the per-crack fields: sum(field_i * 3^i). Bijective base 3 already
+// uses up every positive value, so tuples holding an extra field (4, 'split' strategy) are
+// combined in base 4 and negated: -sum(field_i * 4^i). See decodeCombinedField.
+export const combineFields = (fields: number[]): number => {
+  const base = fields.includes(FieldType.EXTRA) ? 4 : 3;
+  const combined = fields.reduce((val, field, idx) => val + field * (base ** idx), 0);
+  return base === 3 ? combined : -combined;
+};
+
+const applyChanges = (trace: SimulationTrace, flat: Uint8Array, step: SimulationStep) => {
+  step.fieldChanges?.forEach(change => {
+    flat[trace.pairIndex.get(change.key)! * trace.crackCount + change.crackIndex] = change.to;
+  });
+};
+
+// Replays the steps' field changes from the initial state (every field 1) and keeps a
+// copy every `snapshotInterval` steps. An interval of one per pair keeps the snapshots'
+// total size in the order of the step count.
+export const buildTrace = (
+  steps: SimulationStep[],
+  pairKeys: string[],
+  crackCount: number,
+  stats: RunStats
+): SimulationTrace => {
+  const trace: SimulationTrace = {
+    steps,
+    pairKeys,
+    pairIndex: new Map(pairKeys.map((key, idx) => [key, idx])),
+    crackCount,
+    snapshotInterval: Math.max(MIN_SNAPSHOT_INTERVAL, pairKeys.length),
+    snapshots: [],
+    stats
+  };
+
+  const flat = new Uint8Array(pairKeys.length * crackCount).fill(1);
+  steps.forEach((step, index) => {
+    applyChanges(trace, flat, step);
+    if (index % trace.snapshotInterval === 0) trace.snapshots.push(flat.slice());
+  });
+  return trace;
+};
+
+// Field state after step `index` (clamped to the trace)
+export const fieldStateAt = (trace: SimulationTrace, index: number): FieldState => {
+  const target = Math.min(Math.max(0, index), trace.steps.length - 1);
+  const base = Math.floor(target / trace.snapshotInterval);
+  const flat = trace.snapshots[base].slice();
+  for (let i = base * trace.snapshotInterval + 1; i <= target; i++) {
+    applyChanges(trace, flat, trace.steps[i]);
+  }
+
+  const state: FieldState = { combined: {}, crackFields: {} };
+  trace.pairKeys.forEach((key, idx) => {
+    const fields = Array.from(flat.subarray(idx * trace.crackCount, (idx + 1) * trace.crackCount));
+    state.crackFields[key] = fields;
+    state.combined[key] = combineFields(fields);
+  });
+  return state;
+};
+
+export const finalFieldState = (trace: SimulationTrace): FieldState =>
+  fieldStateAt(trace, trace.steps.length - 1);
@@ -17,50 +17,240 @@ export interface Crack {
   points: Point[]; // Ordered list of points forming the path
 }
 
+// Which lattice nodes a particle interacts with
+export type SupportType = 'linear' | 'bspline' | 'gimp';
+
+// Regular background grid that defines node-particle connectivity
+export interface GridConfig {
+  origin: Point; // World position of lattice node (0, 0)
+  spacing: number; // Cell size h
+  cols: number; // Number of cells along x
+  rows: number; // Number of cells along y
+  support: SupportType;
+}
+
 export enum FieldType {
   NONE = 1,
   ABOVE = 2,
-  BELOW = 3
+  BELOW = 3,
+  EXTRA = 4 // Node's own extra field for its field-1 particles, from the 'split' three-field strategy
+}
+
+// Degenerate node-particle / crack-segment configurations, reported instead of
+// silently falling into one sign bucket
+export type DegenerateCase = 'touching' | 'collinear' | 'endpoint-on-line';
+
+// How pairs are treated when a crack stops between their node and particle:
+// 'ignore' only flags them, 'extend' continues the crack to the tip cell's edge,
+// 'separate' does the same but keeps the pairs out of normalization as their own tip field
+export type TipPolicy = 'ignore' | 'extend' | 'separate';
+
+// What to do when a node sees fields [1, 2, 3] for one crack: 'leave' only warns,
+// 'nearest-side' and 'majority' remap the field-1 particles to 2 or 3, 'split'
+// moves them to an extra field (4) at that node
+export type ThreeFieldStrategy = 'leave' | 'nearest-side' | 'majority' | 'split';
+
+// Tunable parameters of generateSimulationTrace
+export interface SimulationOptions {
+  tolerance?: number; // Distance under which a point counts as lying on a line
+  tipPolicy?: TipPolicy;
+  threeFieldStrategy?: ThreeFieldStrategy;
+  maxCracksPerNode?: number; // Further cracks are ignored at a node that already has this many (default no limit)
+  spatialIndex?: boolean; // Test only the crack segments near each pair (default true)
+  mode?: SimulationMode;
+  focus?: StepFocus; // 'steps' mode: record only the steps about this node or particle
 }
 
-// Represents a single step in the algorithm execution for debugging
-export interface SimulationStep {
+// 'steps' records the full trace, 'result' only the final field assignment
+export type SimulationMode = 'steps' | 'result';
+
+export interface StepFocus {
+  kind: 'node' | 'particle';
+  id: number;
+}
+
+// Fields every step carries: what it says, what to highlight, and the field
+// assignments it makes (the full state is rebuilt from the trace, see trace.ts)
+interface StepBase {
   stepId: number;
   description: string;
   highlightNodeId?: number;
   highlightParticleId?: number;
   highlightCrackId?: number;
-  
-  // Multi-segment specific
-  highlightSegmentIndex?: number; // Index of the segment being checked (0 means points[0] -> points[1])
-  segmentCounts?: { f2: number; f3: number }; // Current accumulation
-  
-  // For visualizing the math
-  triangleA?: Point[]; // Triangle (P, N, CrackStart)
-  triangleB?: Point[]; // Triangle (P, N, CrackEnd)
-  triangleC?: Point[]; // Triangle (CrackStart, CrackEnd, P)
-  triangleD?: Point[]; // Triangle (CrackStart, CrackEnd, N)
-  
-  areas?: {
+  fieldChanges?: FieldChange[];
+}
+
+// The orientation test of one node-particle line against one crack segment (or tip extension)
+export interface CrossingCheckData {
+  triangleA: Point[]; // Triangle (P, N, CrackStart)
+  triangleB: Point[]; // Triangle (P, N, CrackEnd)
+  triangleC: Point[]; // Triangle (CrackStart, CrackEnd, P)
+  triangleD: Point[]; // Triangle (CrackStart, CrackEnd, N)
+  areas: {
     area1: number;
     area2: number;
     area3: number;
     area4: number;
   };
-  
-  crossingResult?: number; // 0, 2, or 3
-  
-  // Consistency check specific data
-  consistencyNodeId?: number;
-  consistencyFields?: number[]; // The set of unique fields seen by the node
-  normalizationAction?: string; // e.g., "1->3"
-  
-  // The state of the field matrix at this step
-  currentFieldState: Record<string, number>; // key: "nodeId-particleId" -> field
+  areaSigns: number[]; // Robust signs of area1..area4 (-1, 0, +1)
+  crossingResult: number; // 0, 2, or 3
+  degeneracy?: DegenerateCase;
+  crossingRule: string; // Human-readable rule that produced crossingResult
+  segmentCounts: { f2: number; f3: number }; // Accumulation so far for this pair
+}
+
+export interface TipData {
+  tipCell: { i: number; j: number }; // Cell containing the tip
+  tipNodeIds: number[];
+  tipExtension?: Point[]; // Tip -> cell edge continuation of the crack
+}
+
+// Node-level steps of the consistency phase
+export interface ConsistencyData {
+  consistencyNodeId: number;
+  consistencyFields: number[]; // The set of unique fields seen by the node
+}
+
+export interface InitStep extends StepBase {
+  kind: 'init';
+}
+
+// Two cracks meet inside the support of interactionNodeIds
+export interface CrackIntersectionStep extends StepBase {
+  kind: 'crackIntersection';
+  interactionNodeIds: number[];
+  crackIntersection: Point;
+}
+
+export interface CrackStartStep extends StepBase {
+  kind: 'crackStart';
+  highlightCrackId: number;
+}
+
+export interface CrackTipStep extends StepBase, TipData {
+  kind: 'crackTip';
+  tipPairKeys: string[]; // Pairs partially crossed at this tip
+}
+
+export interface SegmentCheckStep extends StepBase, CrossingCheckData {
+  kind: 'segmentCheck';
+  highlightSegmentIndex: number; // 0 means points[0] -> points[1]
+}
+
+// A pair partially crossed at a crack tip, checked against the tip extension
+export interface TipCheckStep extends StepBase, CrossingCheckData, TipData {
+  kind: 'tipCheck';
+}
+
+// Net field of one pair for one crack, after cancellation
+export interface PairResultStep extends StepBase {
+  kind: 'pairResult';
+  crossingResult: number; // 1, 2, or 3
+  tipAffected?: boolean; // The crack stops between node and particle
+}
+
+// A node over maxCracksPerNode ignores the crack
+export interface CrackLimitStep extends StepBase {
+  kind: 'crackLimit';
+  interactionNodeIds: number[];
+}
+
+export interface ConsistencyPhaseStep extends StepBase {
+  kind: 'consistencyPhase';
+  highlightCrackId: number;
+}
+
+export interface ConsistencyScanStep extends StepBase, ConsistencyData {
+  kind: 'consistencyScan';
+}
+
+// The node sees fields [1, 2, 3]
+export interface WarningStep extends StepBase, ConsistencyData {
+  kind: 'warning';
+}
+
+// Remaps [1, 2] -> [3, 2] or [1, 3] -> [2, 3]
+export interface NormalizationStep extends StepBase, ConsistencyData {
+  kind: 'normalization';
+  normalizationAction: string; // e.g. "1->3"
+}
+
+// What the three-field strategy did after a warning; no action when it left the fields
+export interface ResolutionStep extends StepBase, ConsistencyData {
+  kind: 'resolution';
+  normalizationAction?: string; // "1->2", "1->3" or "1->extra" when the resolution remaps
+}
+
+export interface DoneStep extends StepBase {
+  kind: 'done';
+}
+
+// A single step of the algorithm, for debugging; consumers dispatch on `kind`
+export type SimulationStep =
+  | InitStep
+  | CrackIntersectionStep
+  | CrackStartStep
+  | CrackTipStep
+  | SegmentCheckStep
+  | TipCheckStep
+  | PairResultStep
+  | CrackLimitStep
+  | ConsistencyPhaseStep
+  | ConsistencyScanStep
+  | WarningStep
+  | NormalizationStep
+  | ResolutionStep
+  | DoneStep;
+
+export type StepKind = SimulationStep['kind'];
+
+// One per-crack field assignment of a node-particle pair
+export interface FieldChange {
+  key: string; // "nodeId-particleId"
+  crackIndex: number; // Position of the crack in the scene's crack list
+  from: number;
+  to: number;
+}
+
+// The field matrix at one step
+export interface FieldState {
+  combined: Record<string, number>; // key: "nodeId-particleId" -> base-3 combined field
+  crackFields: Record<string, number[]>; // key -> field (1, 2, 3) per crack, in crack order
+}
+
+// Steps plus periodic snapshots of the per-crack fields, so the field state at any
+// step is one snapshot copy plus at most `snapshotInterval` steps of changes away
+export interface SimulationTrace {
+  steps: SimulationStep[];
+  pairKeys: string[]; // Connected pairs; every field starts at 1 (no crossing)
+  pairIndex: Map<string, number>;
+  crackCount: number;
+  snapshotInterval: number;
+  snapshots: Uint8Array[]; // snapshots[k]: fields after step k * snapshotInterval, pair-major
+  stats: RunStats;
+}
+
+// Collected during every run, whatever steps were recorded
+export interface RunStats {
+  crossingsPerCrack: number[]; // Pairs with a net crossing after cancellation, in crack order
+  cancelledPairs: number; // Pair/crack checks where above and below crossings cancelled
+  normalizations: { nodeId: number; crackId: number; action: string }[];
+  warnings: { nodeId: number; crackId: number }[]; // Nodes that saw all 3 fields
+  nodesTouched: number[]; // Nodes with at least one pair whose field changed
+  nodeCracks: Record<number, number[]>; // Ids of the cracks that split each node's pairs, after the limit
+  crackLimitExceeded: { nodeId: number; crackId: number }[]; // Cracks ignored at a node over maxCracksPerNode
+  crackIntersections: CrackIntersection[];
+}
+
+export interface CrackIntersection {
+  crackIds: [number, number];
+  point: Point;
+  nodeIds: number[]; // Nodes whose support contains the point
 }
 
 export interface SimulationState {
   nodes: Node[];
   particles: Particle[];
   cracks: Crack[];
+  grid: GridConfig;
 }
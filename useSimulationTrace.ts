@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { Node, Particle, Crack, GridConfig, SimulationOptions, SimulationTrace } from './types';
+import { generateSimulationTrace } from './utils';
+import { ReferenceFields, ParityReport, checkParity } from './parity';
+
+export interface SimulationInputs {
+  nodes: Node[];
+  particles: Particle[];
+  cracks: Crack[];
+  grid: GridConfig;
+  options: SimulationOptions;
+  reference: ReferenceFields | null; // Compared against in the same run, so the report matches the trace
+}
+
+export interface SimulationRequest extends SimulationInputs {
+  runId: number;
+}
+
+export type SimulationResponse =
+  | { type: 'progress'; runId: number; fraction: number }
+  | { type: 'done'; runId: number; trace: SimulationTrace; parity: ParityReport | null };
+
+export interface SimulationTraceState {
+  trace: SimulationTrace; // Last completed run; stays until a newer one finishes
+  isCurrent: boolean; // Whether `trace` was built from the arguments of this render
+  parity: ParityReport | null; // `trace` compared against the reference, if one was given
+  progress: number | null; // Progress of a pending run that takes long enough to report, else null
+  error: string | null; // Why the latest run failed; cleared by the next run that finishes
+}
+
+interface SimulationResult {
+  trace: SimulationTrace;
+  parity: ParityReport | null;
+  inputs: SimulationInputs;
+}
+
+// Same work as the worker, for the first scene and where workers are unavailable
+const runSimulation = (inputs: SimulationInputs): SimulationResult => {
+  const { nodes, particles, cracks, grid, options, reference } = inputs;
+  const trace = generateSimulationTrace(nodes, particles, cracks, grid, options);
+  const parity = reference ? checkParity({ nodes, particles, cracks, grid }, reference, options, trace) : null;
+  return { trace, parity, inputs };
+};
+
+const createWorker = () => new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+
+// Computes the trace in a Web Worker. A run still busy with an outdated scene is
+// cancelled by terminating its worker, since a synchronous run cannot be interrupted.
+export const useSimulationTrace = (
+  nodes: Node[],
+  particles: Particle[],
+  cracks: Crack[],
+  grid: GridConfig,
+  options: SimulationOptions,
+  reference: ReferenceFields | null
+): SimulationTraceState => {
+  // The first scene is computed synchronously so there is always something to show.
+  // Each trace is kept with the inputs it was built from.
+  const [result, setResult] = useState(() => runSimulation({ nodes, particles, cracks, grid, options, reference }));
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const pendingInputsRef = useRef<SimulationInputs | null>(null);
+  const busyRef = useRef(false);
+  const isFirstRun = useRef(true);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (isFirstRun.current) {
+      isFirstRun.current = false;
+      return;
+    }
+    if (typeof Worker === 'undefined') {
+      setResult(runSimulation({ nodes, particles, cracks, grid, options, reference }));
+      return;
+    }
+
+    if (busyRef.current) {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    }
+    if (!workerRef.current) {
+      const worker = createWorker();
+      worker.onmessage = (e: MessageEvent<SimulationResponse>) => {
+        const message = e.data;
+        if (message.runId !== runIdRef.current) return;
+        if (message.type === 'progress') {
+          setProgress(message.fraction);
+        } else {
+          busyRef.current = false;
+          setResult({ trace: message.trace, parity: message.parity, inputs: pendingInputsRef.current! });
+          setProgress(null);
+          setError(null);
+        }
+      };
+      worker.onerror = (e) => {
+        busyRef.current = false;
+        setProgress(null);
+        setError(e.message || 'the simulation worker stopped unexpectedly');
+      };
+      workerRef.current = worker;
+    }
+
+    const inputs: SimulationInputs = { nodes, particles, cracks, grid, options, reference };
+    const request: SimulationRequest = { runId: ++runIdRef.current, ...inputs };
+    pendingInputsRef.current = inputs;
+    busyRef.current = true;
+    // A bar already on screen restarts for the new run
+    setProgress(prev => prev === null ? null : 0);
+    workerRef.current.postMessage(request);
+  }, [nodes, particles, cracks, grid, options, reference]);
+
+  const { trace, parity, inputs } = result;
+  const isCurrent = inputs.nodes === nodes && inputs.particles === particles && inputs.cracks === cracks &&
+    inputs.grid === grid && inputs.options === options && inputs.reference === reference;
+  // A report against another reference than the one given now is dropped, not shown stale
+  return { trace, isCurrent, parity: inputs.reference === reference ? parity : null, progress, error };
+};
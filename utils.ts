@@ -1,76 +1,124 @@
 
-import { Point, Node, Particle, Crack, SimulationStep } from './types';
+import { Point, Node, Particle, Crack, FieldType, FieldChange, SimulationStep, SimulationState, SimulationTrace, RunStats, GridConfig, SimulationOptions, DegenerateCase } from './types';
+import { computeConnectivity } from './grid';
+import { orientation, collinearOverlap, DEFAULT_TOLERANCE } from './predicates';
+import { findCrackTips } from './crackTips';
+import { buildTrace } from './trace';
+import { boxOf, boxesOverlap, buildSegmentIndex, segmentCandidates } from './spatialIndex';
+import { threeFieldStrategies } from './threeFieldStrategies';
+import { findCrackIntersections } from './crackInteractions';
 
 // Matches Python: x1[0] * (x2[1] - x3[1]) + x2[0] * (x3[1] - x1[1]) + x3[0] * (x1[1] - x2[1])
 export const triangleArea = (x1: Point, x2: Point, x3: Point): number => {
   return x1.x * (x2.y - x3.y) + x2.x * (x3.y - x1.y) + x3.x * (x1.y - x2.y);
 };
 
-const distSq = (p1: Point, p2: Point) => (p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2;
+export interface CrossingCheck {
+  result: number;
+  areas: { area1: number, area2: number, area3: number, area4: number };
+  signs: number[];
+  degeneracy?: DegenerateCase;
+  rule: string;
+}
+
+const formatSigns = (signs: number[]) =>
+  `[${signs.map(s => s > 0 ? '+' : s < 0 ? '-' : '0').join(',')}]`;
 
 export const checkCrossing = (
   p: Point, 
   n: Point, 
   cStart: Point, 
-  cEnd: Point
-): { result: number, areas: { area1: number, area2: number, area3: number, area4: number } } => {
+  cEnd: Point,
+  tolerance = DEFAULT_TOLERANCE
+): CrossingCheck => {
   
   const area1 = triangleArea(p, n, cStart);
   const area2 = triangleArea(p, n, cEnd);
   const area3 = triangleArea(cStart, cEnd, p);
   const area4 = triangleArea(cStart, cEnd, n);
 
+  // Signs come from the robust predicate, not from the raw areas above
+  const s1 = orientation(p, n, cStart, tolerance);
+  const s2 = orientation(p, n, cEnd, tolerance);
+  const s3 = orientation(cStart, cEnd, p, tolerance);
+  const s4 = orientation(cStart, cEnd, n, tolerance);
+  const signs = [s1, s2, s3, s4];
+
   let result = 0;
 
+  // Zero counts as the + side, matching the Python `< 0` / `>= 0` tests.
   // Pattern [-,+,+,-] means crossed "above"
-  if (area1 < 0 && area2 >= 0 && area3 >= 0 && area4 < 0) {
+  if (s1 < 0 && s2 >= 0 && s3 >= 0 && s4 < 0) {
     result = 2;
   }
   // Pattern [+,-,-,+] means crossed "below"
-  else if (area1 >= 0 && area2 < 0 && area3 < 0 && area4 >= 0) {
+  else if (s1 >= 0 && s2 < 0 && s3 < 0 && s4 >= 0) {
     result = 3;
   }
 
-  return { result, areas: { area1, area2, area3, area4 } };
+  const areas = { area1, area2, area3, area4 };
+  const outcome = result === 0 ? 'no crossing' : `field ${result}`;
+
+  if ((s1 === 0 && s2 === 0) || (s3 === 0 && s4 === 0)) {
+    if (collinearOverlap(p, n, cStart, cEnd, tolerance)) {
+      return { result, areas, signs, degeneracy: 'collinear', rule: `Segment is collinear with the node-particle line and overlaps it ${formatSigns(signs)}: ${outcome}` };
+    }
+  } else if (s1 * s2 <= 0 && s3 * s4 <= 0 && signs.includes(0)) {
+    if (s3 === 0 || s4 === 0) {
+      const who = s3 === 0 ? 'Particle' : 'Node';
+      return { result, areas, signs, degeneracy: 'touching', rule: `${who} lies on the crack segment ${formatSigns(signs)}; zero counts as the + side: ${outcome}` };
+    }
+    const which = s1 === 0 ? 'Segment start' : 'Segment end';
+    return { result, areas, signs, degeneracy: 'endpoint-on-line', rule: `${which} lies on the node-particle line ${formatSigns(signs)}; zero counts as the + side of the line, so of the two segments sharing this vertex only the one from its - side can match: ${outcome}` };
+  }
+
+  const rule = result === 2 ? `Sign pattern ${formatSigns(signs)} matches [-,+,+,-]: crossed above`
+    : result === 3 ? `Sign pattern ${formatSigns(signs)} matches [+,-,-,+]: crossed below`
+    : `Sign pattern ${formatSigns(signs)} matches neither crossing pattern`;
+  return { result, areas, signs, rule };
 };
 
-export const generateSimulationSteps = (
+export const fieldName = (field: number): string =>
+  field === FieldType.ABOVE ? 'above' : field === FieldType.BELOW ? 'below' : field === FieldType.EXTRA ? 'extra' : 'none';
+
+// Inverse of combineFields: sum(field_i * 3^i) with digits 1..3 (bijective base 3), or
+// for a negative value, with an extra field among them, -sum(field_i * 4^i) with digits 1..4
+export const decodeCombinedField = (combined: number): number[] => {
+  const base = combined < 0 ? 4 : 3;
+  const fields: number[] = [];
+  let val = Math.abs(combined);
+  while (val > 0) {
+    const digit = ((val - 1) % base) + 1;
+    fields.push(digit);
+    val = (val - digit) / base;
+  }
+  return fields;
+};
+
+export const generateSimulationTrace = (
   nodes: Node[],
   particles: Particle[],
-  cracks: Crack[]
-): SimulationStep[] => {
+  cracks: Crack[],
+  grid: GridConfig,
+  options: SimulationOptions = {},
+  onProgress?: (fraction: number) => void // Share of the crossing checks done so far
+): SimulationTrace => {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const tipPolicy = options.tipPolicy ?? 'ignore';
+  const threeFieldStrategy = options.threeFieldStrategy ?? 'leave';
+  const maxCracksPerNode = options.maxCracksPerNode ?? Infinity;
   const steps: SimulationStep[] = [];
   let stepCounter = 0;
 
-  // 1. Determine Connectivity (Simulate MPM Grid Cells)
-  const particleToNodes: Record<number, number[]> = {};
-  const nodeToParticles: Record<number, number[]> = {};
+  // 1. Determine Connectivity from the background grid cells
+  const { particleToNodes, nodeToParticles } = computeConnectivity(nodes, particles, grid);
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const particleById = new Map(particles.map(p => [p.id, p]));
 
-  nodes.forEach(n => nodeToParticles[n.id] = []);
-
-  particles.forEach(p => {
-    // Sort nodes by distance to particle, take closest 4
-    const sortedNodes = [...nodes].sort((a, b) => distSq(p, a) - distSq(p, b));
-    const connected = sortedNodes.slice(0, 4);
-    
-    particleToNodes[p.id] = connected.map(n => n.id);
-    connected.forEach(n => {
-      nodeToParticles[n.id].push(p.id);
-    });
-  });
-
-  // Helper to compute combined base-3 field
-  const computeCombinedField = (acc: Record<string, number[]>) => {
-    const combined: Record<string, number> = {};
-    Object.keys(acc).forEach(key => {
-        let val = 0;
-        acc[key].forEach((fieldVal, idx) => {
-            val += fieldVal * (3 ** idx);
-        });
-        combined[key] = val;
-    });
-    return combined;
-  };
+  // Everything a pair can touch; crack segments are only indexed inside it. The
+  // padding covers the tolerance band plus rounding at bucket borders.
+  const pad = tolerance + grid.spacing * 1e-9;
+  const domain = particles.length > 0 && nodes.length > 0 ? boxOf([...particles, ...nodes], pad) : null;
 
   // Initialize accumulators
   // fieldAccumulator stores the field (1, 2, or 3) for EACH crack for each pair
@@ -83,44 +131,146 @@ export const generateSimulationSteps = (
     });
   });
 
+  // Field assignments since the last pushed step; each step records only these
+  let pendingChanges: FieldChange[] = [];
+  const setField = (key: string, crackIndex: number, to: number) => {
+    const from = fieldAccumulator[key][crackIndex];
+    if (from === to) return;
+    fieldAccumulator[key][crackIndex] = to;
+    pendingChanges.push({ key, crackIndex, from, to });
+    touchedNodes.add(Number(key.split('-')[0]));
+  };
+  const takeFieldChanges = () => {
+    if (pendingChanges.length === 0) return {};
+    const fieldChanges = pendingChanges;
+    pendingChanges = [];
+    return { fieldChanges };
+  };
+
+  // Which steps get recorded: all of them, only those about the focused node or
+  // particle, or ('result' mode) just the first and the last. A skipped step's field
+  // changes move on to the next recorded step, so the field state stays exact.
+  const mode = options.mode ?? 'steps';
+  const focus = mode === 'steps' ? options.focus : undefined;
+  const focusNodeIds = new Set(
+    focus?.kind === 'node' ? [focus.id] : focus?.kind === 'particle' ? particleToNodes[focus.id] ?? [] : []
+  );
+  const recordsPhase = mode === 'steps';
+  const recordsPair = (nodeId: number, particleId: number) =>
+    mode === 'steps' && (!focus || (focus.kind === 'node' ? nodeId === focus.id : particleId === focus.id));
+  const recordsNode = (nodeId: number) => mode === 'steps' && (!focus || focusNodeIds.has(nodeId));
+
+  const stats: RunStats = {
+    crossingsPerCrack: cracks.map(() => 0),
+    cancelledPairs: 0,
+    normalizations: [],
+    warnings: [],
+    nodesTouched: [],
+    nodeCracks: {},
+    crackLimitExceeded: [],
+    crackIntersections: findCrackIntersections(nodes, cracks, grid)
+  };
+  const touchedNodes = new Set<number>();
+
   steps.push({
     stepId: stepCounter++,
+    kind: 'init',
     description: "Initialization: Connected pairs set to Field 1 (No Crossing).",
-    currentFieldState: computeCombinedField(fieldAccumulator)
+    ...takeFieldChanges()
+  });
+
+  // Two cracks meeting inside a node's support: that node's fields are unlikely to be meaningful
+  stats.crackIntersections.forEach(({ crackIds, point, nodeIds }) => {
+    if (nodeIds.some(recordsNode)) steps.push({
+        stepId: stepCounter++,
+        kind: 'crackIntersection',
+        description: `Cracks ${crackIds[0] + 1} and ${crackIds[1] + 1} intersect at (${point.x.toFixed(2)}, ${point.y.toFixed(2)}) inside the support of Node${nodeIds.length > 1 ? 's' : ''} ${nodeIds.join(', ')}`,
+        highlightCrackId: crackIds[0],
+        interactionNodeIds: nodeIds,
+        crackIntersection: point,
+        ...takeFieldChanges()
+    });
   });
 
   cracks.forEach((crack, crackIdx) => {
-    steps.push({
+    if (recordsPhase) steps.push({
       stepId: stepCounter++,
+      kind: 'crackStart',
       description: `Processing Crack ${crack.id + 1}...`,
       highlightCrackId: crack.id,
-      currentFieldState: computeCombinedField(fieldAccumulator)
+      ...takeFieldChanges()
+    });
+
+    // Crack tips inside the grid: pairs whose line crosses the tip's extension to
+    // the cell edge are only partially crossed (the crack stops between them)
+    const tips = findCrackTips(crack, nodes, grid);
+    const tipChecks: Record<string, { tipIdx: number, check: CrossingCheck }[]> = {};
+
+    tips.forEach((tip, tipIdx) => {
+      const tipPairKeys: string[] = [];
+      if (tip.extension) {
+        const [extStart, extEnd] = tip.extension;
+        const extBox = boxOf(tip.extension, pad);
+        particles.forEach(p => {
+          particleToNodes[p.id].forEach(nodeId => {
+            const n = nodeById.get(nodeId)!;
+            if (options.spatialIndex !== false && !boxesOverlap(boxOf([p, n]), extBox)) return;
+            const check = checkCrossing(p, n, extStart, extEnd, tolerance);
+            if (check.result === 0) return;
+            const key = `${n.id}-${p.id}`;
+            (tipChecks[key] ??= []).push({ tipIdx, check });
+            tipPairKeys.push(key);
+          });
+        });
+      }
+
+      if (recordsPhase) steps.push({
+        stepId: stepCounter++,
+        kind: 'crackTip',
+        description: `Crack ${crack.id + 1} tip (${tip.end}) in cell (${tip.cell.i}, ${tip.cell.j}): ${tipPairKeys.length} partially crossed pair(s)`,
+        highlightCrackId: crack.id,
+        tipCell: tip.cell,
+        tipNodeIds: tip.nodeIds,
+        tipExtension: tip.extension ?? undefined,
+        tipPairKeys,
+        ...takeFieldChanges()
+      });
     });
+    const tipPairs = new Set(Object.keys(tipChecks));
+
+    // Segments whose padded footprint shares a bucket with the pair's bounding box;
+    // the others cannot cross the pair and are skipped without a step
+    const segmentIndex = options.spatialIndex !== false && domain
+      ? buildSegmentIndex(crack.points, grid.origin, grid.spacing, domain, pad)
+      : null;
+    const allSegments = crack.points.slice(1).map((_, i) => i);
 
     // 2. Crossing Detection Phase
-    particles.forEach(p => {
+    particles.forEach((p, pIdx) => {
       const connectedNodeIds = particleToNodes[p.id];
       
       connectedNodeIds.forEach(nodeId => {
-        const n = nodes.find(node => node.id === nodeId)!;
+        const n = nodeById.get(nodeId)!;
         const key = `${n.id}-${p.id}`;
         
         let field2_count = 0;
         let field3_count = 0;
 
         // Loop through crack segments
-        for (let i = 0; i < crack.points.length - 1; i++) {
+        const candidates = segmentIndex ? segmentCandidates(segmentIndex, p, n) : allSegments;
+        for (const i of candidates) {
             const start = crack.points[i];
             const end = crack.points[i+1];
             
-            const { result, areas } = checkCrossing(p, n, start, end);
+            const { result, areas, signs, degeneracy, rule } = checkCrossing(p, n, start, end, tolerance);
             
             if (result === 2) field2_count++;
             if (result === 3) field3_count++;
 
-            const step: SimulationStep = {
+            if (recordsPair(n.id, p.id)) steps.push({
                 stepId: stepCounter++,
-                description: `Checking Node ${n.id}-P${p.id} vs Segment ${i}`,
+                kind: 'segmentCheck',
+                description: `Checking Node ${n.id}-P${p.id} vs Segment ${i}${degeneracy ? ` (${degeneracy})` : ''}`,
                 highlightNodeId: n.id,
                 highlightParticleId: p.id,
                 highlightCrackId: crack.id,
@@ -130,17 +280,52 @@ export const generateSimulationSteps = (
                 triangleC: [start, end, p],
                 triangleD: [start, end, n],
                 areas,
+                areaSigns: signs,
                 crossingResult: result,
+                degeneracy,
+                crossingRule: rule,
                 segmentCounts: { f2: field2_count, f3: field3_count },
-                currentFieldState: computeCombinedField(fieldAccumulator)
-            };
-            steps.push(step);
+                ...takeFieldChanges()
+            });
         }
 
+        // Partial crossings at the crack tips
+        (tipChecks[key] ?? []).forEach(({ tipIdx, check }) => {
+            const tip = tips[tipIdx];
+            const [extStart, extEnd] = tip.extension!;
+            const counts = tipPolicy !== 'ignore';
+            if (counts && check.result === 2) field2_count++;
+            if (counts && check.result === 3) field3_count++;
+
+            if (recordsPair(n.id, p.id)) steps.push({
+                stepId: stepCounter++,
+                kind: 'tipCheck',
+                description: `Checking Node ${n.id}-P${p.id} vs tip extension (${tip.end})`,
+                highlightNodeId: n.id,
+                highlightParticleId: p.id,
+                highlightCrackId: crack.id,
+                triangleA: [p, n, extStart],
+                triangleB: [p, n, extEnd],
+                triangleC: [extStart, extEnd, p],
+                triangleD: [extStart, extEnd, n],
+                areas: check.areas,
+                areaSigns: check.signs,
+                crossingResult: check.result,
+                degeneracy: check.degeneracy,
+                crossingRule: `${check.rule} (tip policy "${tipPolicy}": ${counts ? 'counted' : 'flagged only'})`,
+                tipCell: tip.cell,
+                tipNodeIds: tip.nodeIds,
+                tipExtension: tip.extension!,
+                segmentCounts: { f2: field2_count, f3: field3_count },
+                ...takeFieldChanges()
+            });
+        });
+
         // Cancellation Logic
         let finalField = 1;
         
         if (field2_count > 0 && field3_count > 0) {
+             stats.cancelledPairs++;
              const min = Math.min(field2_count, field3_count);
              field2_count -= min;
              field3_count -= min;
@@ -148,35 +333,69 @@ export const generateSimulationSteps = (
 
         if (field2_count % 2 === 1) finalField = 2;
         else if (field3_count % 2 === 1) finalField = 3;
+        if (finalField !== 1) stats.crossingsPerCrack[crackIdx]++;
 
         // Update accumulator
         const changed = fieldAccumulator[key][crackIdx] !== finalField;
-        fieldAccumulator[key][crackIdx] = finalField;
+        setField(key, crackIdx, finalField);
 
-        if (changed || finalField !== 1) {
+        if ((changed || finalField !== 1 || tipPairs.has(key)) && recordsPair(n.id, p.id)) {
             steps.push({
                 stepId: stepCounter++,
-                description: `Result Node ${n.id}-P${p.id}: ${finalField === 1 ? 'No Net Crossing' : (finalField === 2 ? 'Net Above' : 'Net Below')}`,
+                kind: 'pairResult',
+                description: `Result Node ${n.id}-P${p.id}: ${finalField === 1 ? 'No Net Crossing' : (finalField === 2 ? 'Net Above' : 'Net Below')}${tipPairs.has(key) ? ' (crack tip)' : ''}`,
                 highlightNodeId: n.id,
                 highlightParticleId: p.id,
                 highlightCrackId: crack.id,
                 crossingResult: finalField,
-                currentFieldState: computeCombinedField(fieldAccumulator)
+                tipAffected: tipPairs.has(key) || undefined,
+                ...takeFieldChanges()
             });
         }
       });
+
+      onProgress?.((crackIdx * particles.length + pIdx + 1) / (cracks.length * particles.length));
+    });
+
+    // Crack limit: a node keeps the first maxCracksPerNode cracks that split its pairs,
+    // later ones are reset to field 1 there before the consistency check
+    nodes.forEach(n => {
+        const splitIds = nodeToParticles[n.id].filter(pid => fieldAccumulator[`${n.id}-${pid}`][crackIdx] !== 1);
+        if (splitIds.length === 0) return;
+        const applied = stats.nodeCracks[n.id] ?? (stats.nodeCracks[n.id] = []);
+        if (applied.length < maxCracksPerNode) {
+            applied.push(crack.id);
+            return;
+        }
+
+        splitIds.forEach(pid => setField(`${n.id}-${pid}`, crackIdx, 1));
+        stats.crackLimitExceeded.push({ nodeId: n.id, crackId: crack.id });
+        if (recordsNode(n.id)) steps.push({
+            stepId: stepCounter++,
+            kind: 'crackLimit',
+            description: `LIMIT: Node ${n.id} already interacts with Crack${applied.length > 1 ? 's' : ''} ${applied.map(id => id + 1).join(', ')} (max ${maxCracksPerNode}), ignoring Crack ${crack.id + 1} there`,
+            highlightNodeId: n.id,
+            highlightCrackId: crack.id,
+            interactionNodeIds: [n.id],
+            ...takeFieldChanges()
+        });
     });
 
     // 3. Consistency Check & Normalization Phase
-    steps.push({
+    if (recordsPhase) steps.push({
         stepId: stepCounter++,
+        kind: 'consistencyPhase',
         description: `Consistency Check Phase for Crack ${crack.id + 1}`,
         highlightCrackId: crack.id,
-        currentFieldState: computeCombinedField(fieldAccumulator)
+        ...takeFieldChanges()
     });
 
     nodes.forEach(n => {
-        const connectedParticleIds = nodeToParticles[n.id];
+        // Under the 'separate' tip policy, partially crossed pairs form their own field
+        // and take no part in this node's normalization
+        const connectedParticleIds = nodeToParticles[n.id].filter(pid =>
+            tipPolicy !== 'separate' || !tipPairs.has(`${n.id}-${pid}`)
+        );
         if (connectedParticleIds.length === 0) return;
 
         // Collect fields seen by this node from connected particles FOR CURRENT CRACK
@@ -190,28 +409,69 @@ export const generateSimulationSteps = (
         // Ensure numeric sort for correct comparison [1, 2] vs [1, 3]
         const sortedFields = Array.from(seenFields).sort((a, b) => a - b);
 
-        const step: SimulationStep = {
+        // Only push step if it's interesting (more than just field 1) or to be thorough
+        // We'll push it to be thorough as requested ("step by step debug")
+        if (recordsNode(n.id)) steps.push({
             stepId: stepCounter++,
+            kind: 'consistencyScan',
             description: `Node ${n.id} sees fields: [${sortedFields.join(', ')}]`,
             highlightNodeId: n.id,
             consistencyNodeId: n.id,
             consistencyFields: sortedFields,
-            currentFieldState: computeCombinedField(fieldAccumulator)
-        };
-        
-        // Only push step if it's interesting (more than just field 1) or to be thorough
-        // We'll push it to be thorough as requested ("step by step debug")
-        steps.push(step);
+            ...takeFieldChanges()
+        });
 
         if (sortedFields.length === 3) {
-            steps.push({
+            stats.warnings.push({ nodeId: n.id, crackId: crack.id });
+            if (recordsNode(n.id)) steps.push({
                 stepId: stepCounter++,
+                kind: 'warning',
                 description: `WARNING: Node ${n.id} sees all 3 fields!`,
                 highlightNodeId: n.id,
                 consistencyNodeId: n.id,
                 consistencyFields: sortedFields,
-                currentFieldState: computeCombinedField(fieldAccumulator)
+                ...takeFieldChanges()
             });
+
+            const resolution = threeFieldStrategies[threeFieldStrategy]({
+                node: n,
+                particles: connectedParticleIds.map(pid => particleById.get(pid)!),
+                fieldOf: pid => fieldAccumulator[`${n.id}-${pid}`][crackIdx],
+                crack,
+                tolerance
+            });
+
+            // One step per target field, so each carries a plain "from->to" action
+            [FieldType.ABOVE, FieldType.BELOW, FieldType.EXTRA].forEach(remapTo => {
+                const remapped = resolution.remaps.filter(r => r.to === remapTo).map(r => r.particleId);
+                if (remapped.length === 0) return;
+                remapped.forEach(pid => setField(`${n.id}-${pid}`, crackIdx, remapTo));
+
+                const action = `1->${remapTo === FieldType.EXTRA ? 'extra' : remapTo}`;
+                stats.normalizations.push({ nodeId: n.id, crackId: crack.id, action });
+                if (recordsNode(n.id)) steps.push({
+                    stepId: stepCounter++,
+                    kind: 'resolution',
+                    description: `Resolving Node ${n.id} (${resolution.note}): Remapping Field 1 -> ${remapTo} for ${remapped.map(pid => `P${pid}`).join(', ')}`,
+                    highlightNodeId: n.id,
+                    consistencyNodeId: n.id,
+                    consistencyFields: sortedFields,
+                    normalizationAction: action,
+                    ...takeFieldChanges()
+                });
+            });
+
+            if (resolution.remaps.length === 0 && threeFieldStrategy !== 'leave' && recordsNode(n.id)) {
+                steps.push({
+                    stepId: stepCounter++,
+                    kind: 'resolution',
+                    description: `Node ${n.id}: ${resolution.note}`,
+                    highlightNodeId: n.id,
+                    consistencyNodeId: n.id,
+                    consistencyFields: sortedFields,
+                    ...takeFieldChanges()
+                });
+            }
         }
 
         if (sortedFields.length === 2) {
@@ -229,18 +489,20 @@ export const generateSimulationSteps = (
                 connectedParticleIds.forEach(pid => {
                     const key = `${n.id}-${pid}`;
                     if (fieldAccumulator[key][crackIdx] === remapFrom) {
-                        fieldAccumulator[key][crackIdx] = remapTo;
+                        setField(key, crackIdx, remapTo);
                     }
                 });
 
-                steps.push({
+                stats.normalizations.push({ nodeId: n.id, crackId: crack.id, action: `${remapFrom}->${remapTo}` });
+                if (recordsNode(n.id)) steps.push({
                     stepId: stepCounter++,
+                    kind: 'normalization',
                     description: `Normalizing Node ${n.id}: Remapping Field ${remapFrom} -> ${remapTo}`,
                     highlightNodeId: n.id,
                     consistencyNodeId: n.id,
                     consistencyFields: sortedFields,
                     normalizationAction: `${remapFrom}->${remapTo}`,
-                    currentFieldState: computeCombinedField(fieldAccumulator)
+                    ...takeFieldChanges()
                 });
             }
         }
@@ -249,15 +511,19 @@ export const generateSimulationSteps = (
 
   steps.push({
     stepId: stepCounter++,
+    kind: 'done',
     description: "Computation Complete. Final fields shown.",
-    currentFieldState: computeCombinedField(fieldAccumulator)
+    ...takeFieldChanges()
   });
 
-  return steps;
+  stats.nodesTouched = Array.from(touchedNodes).sort((a, b) => a - b);
+  return buildTrace(steps, Object.keys(fieldAccumulator), cracks.length, stats);
 };
 
 // Presets
-export const presets = {
+export type PresetKey = 'case1' | 'case2' | 'case3';
+
+export const presets: Record<PresetKey, SimulationState> = {
   case1: {
     nodes: [
       { id: 0, x: 2, y: 2 }, { id: 1, x: 8, y: 2 },
@@ -269,7 +535,8 @@ export const presets = {
     ],
     cracks: [
       { id: 0, points: [{ x: 1, y: 5 }, { x: 9, y: 5 }] }
-    ]
+    ],
+    grid: { origin: { x: 2, y: 2 }, spacing: 6, cols: 1, rows: 1, support: 'linear' }
   },
   case2: {
     nodes: [
@@ -283,7 +550,8 @@ export const presets = {
     ],
     cracks: [
       { id: 0, points: [{ x: 1, y: 1 }, { x: 9, y: 9 }] }
-    ]
+    ],
+    grid: { origin: { x: 2, y: 2 }, spacing: 3, cols: 2, rows: 2, support: 'linear' }
   },
   case3: { // Two Cracks
     nodes: [
@@ -298,6 +566,7 @@ export const presets = {
     cracks: [
       { id: 0, points: [{ x: 0, y: 5 }, { x: 10, y: 5 }] }, // Horizontal
       { id: 1, points: [{ x: 5, y: 0 }, { x: 5, y: 10 }] }  // Vertical
-    ]
+    ],
+    grid: { origin: { x: 2, y: 2 }, spacing: 3, cols: 2, rows: 2, support: 'linear' }
   }
 }
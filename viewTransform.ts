@@ -0,0 +1,61 @@
+import { Point } from './types';
+import { boxOf } from './spatialIndex';
+
+// Maps world coordinates to SVG viewBox coordinates (y axis pointing up in the world):
+//   screen.x = world.x * scale + offsetX
+//   screen.y = height - (world.y * scale + offsetY)
+export interface ViewTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const MIN_SCALE = 1e-6;
+export const MAX_SCALE = 1e8;
+
+// Matches the fixed layout used before zooming existed (scale 40, 50px margin)
+export const DEFAULT_VIEW: ViewTransform = { scale: 40, offsetX: 50, offsetY: 50 };
+
+export const worldToScreen = (view: ViewTransform, height: number, p: Point): Point => ({
+  x: p.x * view.scale + view.offsetX,
+  y: height - (p.y * view.scale + view.offsetY)
+});
+
+export const screenToWorld = (view: ViewTransform, height: number, x: number, y: number): Point => ({
+  x: (x - view.offsetX) / view.scale,
+  y: (height - y - view.offsetY) / view.scale
+});
+
+// Zoom by `factor` keeping the world point under (sx, sy) fixed on screen
+export const zoomAt = (view: ViewTransform, height: number, sx: number, sy: number, factor: number): ViewTransform => {
+  const anchor = screenToWorld(view, height, sx, sy);
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * factor));
+  return {
+    scale,
+    offsetX: sx - anchor.x * scale,
+    offsetY: height - sy - anchor.y * scale
+  };
+};
+
+export const panBy = (view: ViewTransform, dx: number, dy: number): ViewTransform => ({
+  ...view,
+  offsetX: view.offsetX + dx,
+  offsetY: view.offsetY - dy
+});
+
+// Smallest view that shows every point with `padding` pixels around it
+export const fitView = (points: Point[], width: number, height: number, padding = 50): ViewTransform => {
+  if (points.length === 0) return DEFAULT_VIEW;
+
+  const { min: { x: minX, y: minY }, max: { x: maxX, y: maxY } } = boxOf(points);
+
+  // World units per pixel needed along the tighter axis; a single point keeps the default zoom
+  const extent = Math.max((maxX - minX) / (width - 2 * padding), (maxY - minY) / (height - 2 * padding));
+  const scale = extent > 0 ? Math.min(MAX_SCALE, Math.max(MIN_SCALE, 1 / extent)) : DEFAULT_VIEW.scale;
+
+  return {
+    scale,
+    offsetX: width / 2 - ((minX + maxX) / 2) * scale,
+    offsetY: height / 2 - ((minY + maxY) / 2) * scale
+  };
+};
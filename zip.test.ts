@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ZIP_MAX_ENTRIES, createZip, crc32 } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+// Reads a stored-only archive the way unzip does: end record, then the central
+// directory, then each local header it points to
+const readZip = (bytes: Uint8Array): ReadEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let at = view.getUint32(end + 16, true);
+  expect(at + centralSize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 22, true)).toBe(size);
+    const localNameLength = view.getUint16(offset + 26, true);
+    expect(decoder.decode(bytes.subarray(offset + 30, offset + 30 + localNameLength))).toBe(name);
+    const dataStart = offset + 30 + localNameLength + view.getUint16(offset + 28, true);
+    entries.push({ name, crc, offset, data: bytes.subarray(dataStart, dataStart + size) });
+    at += 46 + nameLength + view.getUint16(at + 30, true) + view.getUint16(at + 32, true);
+  }
+  return entries;
+};
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes entries a reader finds by name, with matching CRCs and offsets', async () => {
+    const input = [
+      { name: 'frame-0001.svg', data: text('<svg/>') },
+      { name: 'frame-0002.svg', data: new Uint8Array(0) },
+      { name: 'sub/frame-0003.png', data: Uint8Array.from({ length: 1000 }, (_, i) => i % 251) }
+    ];
+    const entries = readZip(new Uint8Array(await createZip(input).arrayBuffer()));
+
+    expect(entries.map(e => e.name)).toEqual(input.map(e => e.name));
+    entries.forEach((entry, i) => {
+      expect(entry.data).toEqual(input[i].data);
+      expect(entry.crc).toBe(crc32(input[i].data));
+    });
+    expect(entries.map(e => e.offset)).toEqual([0, 30 + 14 + 6, 2 * 30 + 2 * 14 + 6]);
+  });
+
+  it('refuses more entries than the format can count', () => {
+    const entries = Array.from({ length: ZIP_MAX_ENTRIES + 1 }, (_, i) => ({ name: `${i}`, data: new Uint8Array(0) }));
+    expect(() => createZip(entries)).toThrow(`at most ${ZIP_MAX_ENTRIES} entries`);
+  });
+});
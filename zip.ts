@@ -0,0 +1,89 @@
+// Minimal zip writer: stored (uncompressed) entries, enough for bundling exported frames
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Limits of the plain zip format (16-bit entry count, 32-bit sizes and offsets); no ZIP64
+// records are written, so larger archives are refused instead of coming out corrupt
+export const ZIP_MAX_ENTRIES = 0xffff;
+export const ZIP_MAX_BYTES = 0xffffffff;
+
+// DOS date 1980-01-01 (month in bits 5-8, day in bits 0-4); entry times carry no meaning here
+const DOS_DATE = (1 << 5) | 1;
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new Error(`A zip holds at most ${ZIP_MAX_ENTRIES} entries, got ${entries.length}.`);
+  }
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(8, 0, true); // Method: stored
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true); // Version made by
+    header.setUint16(6, 20, true); // Version needed
+    header.setUint16(14, DOS_DATE, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize + 22 > ZIP_MAX_BYTES) {
+    throw new Error(`A zip holds at most ${ZIP_MAX_BYTES} bytes; these entries need ${offset + centralSize + 22}.`);
+  }
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const chunks = [...parts, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(offset + centralSize + 22);
+  let at = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, at);
+    at += chunk.length;
+  });
+  return new Blob([out], { type: 'application/zip' });
+};